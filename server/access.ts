@@ -0,0 +1,172 @@
+import { and, eq } from "drizzle-orm";
+import { db } from "./db";
+import {
+  codeSnippets,
+  projectCollaborators,
+  projects,
+  snippetCollaborators,
+  supportTickets,
+  type CodeSnippet,
+  type Project,
+} from "@shared/schema";
+import type { AuthUser } from "./auth";
+import { HttpError } from "./errors";
+import { isUnlocked } from "./protection";
+
+export type SnippetAccess = "read" | "write" | "owner";
+export type ProjectRole = "viewer" | "editor" | "owner";
+
+const PROJECT_ROLE_ORDER: ProjectRole[] = ["viewer", "editor", "owner"];
+
+function denied(user: AuthUser | undefined, message: string) {
+  return user ? new HttpError(403, message) : new HttpError(401, "Authentication required");
+}
+
+async function isSnippetCollaborator(snippetId: string, userId: string) {
+  const [collaborator] = await db
+    .select({ id: snippetCollaborators.id })
+    .from(snippetCollaborators)
+    .where(and(eq(snippetCollaborators.snippetId, snippetId), eq(snippetCollaborators.userId, userId)))
+    .limit(1);
+  return Boolean(collaborator);
+}
+
+export function isSnippetExpired(snippet: Pick<CodeSnippet, "expiresAt">, now = new Date()) {
+  return Boolean(snippet.expiresAt && snippet.expiresAt <= now);
+}
+
+/*
+ * Snippet rules:
+ * - The owner can do anything.
+ * - Listed collaborators can read and write.
+ * - Anyone holding the share token can read an unprotected snippet.
+ * - A protected snippet with a passphrase can also be read with an unlock
+ *   token from /unlock; without one the reader gets a 401 challenge. Embeds
+ *   and exports never pass an unlock token, so they only ever show content
+ *   to the owner and collaborators.
+ * - Snippets created anonymously have no owner, so the share token is the only
+ *   credential and anyone holding it can write.
+ */
+export async function assertSnippetAccess(
+  snippet: CodeSnippet,
+  user: AuthUser | undefined,
+  access: SnippetAccess,
+  unlockToken?: string | null,
+) {
+  if (user && snippet.ownerId === user.id) return;
+
+  if (access === "owner") {
+    throw denied(user, "Only the snippet owner can do this");
+  }
+
+  const collaborator = user ? await isSnippetCollaborator(snippet.id, user.id) : false;
+  if (collaborator) return;
+
+  if (access === "read" && !snippet.isProtected) return;
+  if (access === "read") {
+    const unlocked = await isUnlocked(snippet.id, unlockToken);
+    if (unlocked) return;
+    if (unlocked === false) {
+      throw new HttpError(401, "This snippet is protected by a passphrase", { passphraseRequired: true });
+    }
+  }
+  if (access === "write" && !snippet.ownerId) return;
+
+  throw denied(user, access === "read" ? "This snippet is protected" : "You cannot edit this snippet");
+}
+
+export async function loadSnippetByToken(
+  shareToken: string,
+  user: AuthUser | undefined,
+  access: SnippetAccess,
+  unlockToken?: string | null,
+) {
+  const [snippet] = await db
+    .select()
+    .from(codeSnippets)
+    .where(eq(codeSnippets.shareToken, shareToken))
+    .limit(1);
+
+  if (!snippet) {
+    throw new HttpError(404, "Snippet not found");
+  }
+  if (isSnippetExpired(snippet)) {
+    throw new HttpError(410, "Snippet has expired");
+  }
+  await assertSnippetAccess(snippet, user, access, unlockToken);
+  return snippet;
+}
+
+export async function loadSnippetById(snippetId: string, user: AuthUser | undefined, access: SnippetAccess) {
+  const [snippet] = await db
+    .select()
+    .from(codeSnippets)
+    .where(eq(codeSnippets.id, snippetId))
+    .limit(1);
+
+  if (!snippet) {
+    throw new HttpError(404, "Snippet not found");
+  }
+  if (isSnippetExpired(snippet)) {
+    throw new HttpError(410, "Snippet has expired");
+  }
+  await assertSnippetAccess(snippet, user, access);
+  return snippet;
+}
+
+export async function getProjectRole(project: Project, userId: string): Promise<ProjectRole | null> {
+  if (project.ownerId === userId) return "owner";
+
+  const [collaborator] = await db
+    .select({ role: projectCollaborators.role })
+    .from(projectCollaborators)
+    .where(and(eq(projectCollaborators.projectId, project.id), eq(projectCollaborators.userId, userId)))
+    .limit(1);
+
+  if (!collaborator) return null;
+  return PROJECT_ROLE_ORDER.includes(collaborator.role as ProjectRole)
+    ? (collaborator.role as ProjectRole)
+    : "viewer";
+}
+
+/** Loads a project and checks the user holds at least `minimumRole` on it. */
+export async function loadProject(projectId: string, user: AuthUser | undefined, minimumRole: ProjectRole) {
+  if (!user) {
+    throw new HttpError(401, "Authentication required");
+  }
+
+  const [project] = await db
+    .select()
+    .from(projects)
+    .where(eq(projects.id, projectId))
+    .limit(1);
+
+  const role = project ? await getProjectRole(project, user.id) : null;
+  // Projects a user cannot see are reported as missing rather than forbidden.
+  if (!project || !role) {
+    throw new HttpError(404, "Project not found");
+  }
+  if (PROJECT_ROLE_ORDER.indexOf(role) < PROJECT_ROLE_ORDER.indexOf(minimumRole)) {
+    throw new HttpError(403, `This action requires the ${minimumRole} role`);
+  }
+
+  return { project, role };
+}
+
+/** Tickets are visible to the user who filed them and to admins only. */
+export async function loadTicket(ticketId: string, user: AuthUser | undefined) {
+  if (!user) {
+    throw new HttpError(401, "Authentication required");
+  }
+
+  const [ticket] = await db
+    .select()
+    .from(supportTickets)
+    .where(eq(supportTickets.id, ticketId))
+    .limit(1);
+
+  if (!ticket || (ticket.userId !== user.id && user.role !== "admin")) {
+    throw new HttpError(404, "Ticket not found");
+  }
+  return ticket;
+}
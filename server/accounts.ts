@@ -0,0 +1,233 @@
+import { createHash, randomBytes } from "crypto";
+import { and, desc, eq, gt, isNotNull, isNull, ne, sql } from "drizzle-orm";
+import { db } from "./db";
+import {
+  profiles,
+  verificationTokens,
+  type VerificationPurpose,
+  type VerificationToken,
+} from "@shared/schema";
+import type { AuthUser } from "./auth";
+import { HttpError } from "./errors";
+import { getIdentityProvider } from "./identity";
+import { getMailer } from "./mailer";
+import type { Transaction } from "./projectFiles";
+
+export const APP_URL = (process.env.APP_URL || "http://localhost:5000").replace(/\/$/, "");
+
+const TOKEN_TTL_MS: Record<VerificationPurpose, number> = {
+  verify_email: 24 * 60 * 60 * 1000,
+  email_change: 24 * 60 * 60 * 1000,
+  password_reset: 60 * 60 * 1000,
+};
+// A new token for the same purpose cannot be sent within this long of the last.
+const RESEND_COOLDOWN_MS = (Number(process.env.VERIFICATION_RESEND_COOLDOWN_SECONDS) || 60) * 1000;
+
+function hashToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Creates a token and returns it; only its hash is stored. Any earlier unused
+ * token for the same purpose stops working, so only the latest email counts.
+ */
+async function issueToken(userId: string, email: string, purpose: VerificationPurpose) {
+  return db.transaction(async (tx) => {
+    await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${`verification:${userId}:${purpose}`}))`);
+
+    const [latest] = await tx
+      .select({ createdAt: verificationTokens.createdAt })
+      .from(verificationTokens)
+      .where(and(eq(verificationTokens.userId, userId), eq(verificationTokens.purpose, purpose)))
+      .orderBy(desc(verificationTokens.createdAt))
+      .limit(1);
+    const wait = latest?.createdAt ? latest.createdAt.getTime() + RESEND_COOLDOWN_MS - Date.now() : 0;
+    if (wait > 0) {
+      throw new HttpError(429, "Please wait before requesting another email", { retryAfter: Math.ceil(wait / 1000) });
+    }
+
+    await tx
+      .delete(verificationTokens)
+      .where(and(
+        eq(verificationTokens.userId, userId),
+        eq(verificationTokens.purpose, purpose),
+        isNull(verificationTokens.usedAt),
+      ));
+
+    const token = randomBytes(32).toString("base64url");
+    const expiresAt = new Date(Date.now() + TOKEN_TTL_MS[purpose]);
+    await tx.insert(verificationTokens).values({ userId, email, purpose, tokenHash: hashToken(token), expiresAt });
+    return { token, expiresAt };
+  });
+}
+
+/**
+ * Runs `apply` for a valid token and marks it used in the same transaction,
+ * so a token works once and a failed `apply` leaves it usable.
+ */
+async function consumeToken<T>(
+  token: string,
+  purpose: VerificationPurpose,
+  apply: (tx: Transaction, row: VerificationToken) => Promise<T>,
+) {
+  return db.transaction(async (tx) => {
+    const [row] = await tx
+      .select()
+      .from(verificationTokens)
+      .where(and(
+        eq(verificationTokens.tokenHash, hashToken(token)),
+        eq(verificationTokens.purpose, purpose),
+        isNull(verificationTokens.usedAt),
+        gt(verificationTokens.expiresAt, new Date()),
+      ))
+      .for("update");
+    if (!row) {
+      throw new HttpError(400, "This link is invalid or has expired");
+    }
+
+    const result = await apply(tx, row);
+    await tx.update(verificationTokens).set({ usedAt: new Date() }).where(eq(verificationTokens.id, row.id));
+    return result;
+  });
+}
+
+async function assertEmailAvailable(tx: Transaction | typeof db, email: string, userId: string) {
+  const [taken] = await tx
+    .select({ id: profiles.id })
+    .from(profiles)
+    .where(and(sql`lower(${profiles.email}) = ${email.toLowerCase()}`, ne(profiles.id, userId)))
+    .limit(1);
+  if (taken) {
+    throw new HttpError(409, "This email address is used by another account");
+  }
+}
+
+async function getProfileEmail(userId: string) {
+  const [profile] = await db
+    .select({ email: profiles.email, emailVerifiedAt: profiles.emailVerifiedAt })
+    .from(profiles)
+    .where(eq(profiles.id, userId))
+    .limit(1);
+  return profile ?? { email: null, emailVerifiedAt: null };
+}
+
+async function setVerifiedEmail(tx: Transaction, userId: string, email: string) {
+  await assertEmailAvailable(tx, email, userId);
+  const verified = { email, emailVerifiedAt: new Date() };
+  await tx.insert(profiles).values({ id: userId, ...verified }).onConflictDoUpdate({ target: profiles.id, set: verified });
+}
+
+function link(path: string, token: string) {
+  return `${APP_URL}${path}?token=${encodeURIComponent(token)}`;
+}
+
+export async function getAccountEmail(user: AuthUser) {
+  const profile = await getProfileEmail(user.id);
+  return {
+    email: profile.email ?? user.email,
+    verified: Boolean(profile.emailVerifiedAt),
+    emailVerifiedAt: profile.emailVerifiedAt,
+  };
+}
+
+/** Sends a verification link to the email address on the user's session. */
+export async function sendEmailVerification(user: AuthUser) {
+  if (!user.email) {
+    throw new HttpError(400, "Your account has no email address to verify");
+  }
+  const profile = await getProfileEmail(user.id);
+  if (profile.emailVerifiedAt && profile.email?.toLowerCase() === user.email.toLowerCase()) {
+    throw new HttpError(409, "This email address is already verified");
+  }
+  await assertEmailAvailable(db, user.email, user.id);
+
+  const { token, expiresAt } = await issueToken(user.id, user.email, "verify_email");
+  await getMailer().send({
+    to: user.email,
+    subject: "Verify your email address",
+    text: `Confirm this is your email address by opening the link below.\n\n${link("/verify-email", token)}\n\nThe link expires in 24 hours. If you did not ask for this, you can ignore this email.`,
+  });
+  return { sentTo: user.email, expiresAt };
+}
+
+export async function confirmEmailVerification(token: string) {
+  return consumeToken(token, "verify_email", async (tx, row) => {
+    await setVerifiedEmail(tx, row.userId, row.email);
+    return { email: row.email, verified: true };
+  });
+}
+
+/**
+ * Sends a confirmation link to the new address. The change only happens once
+ * it is confirmed; the current verified address is told about the request.
+ */
+export async function requestEmailChange(user: AuthUser, email: string) {
+  const profile = await getProfileEmail(user.id);
+  const current = profile.email ?? user.email;
+  if (current?.toLowerCase() === email.toLowerCase()) {
+    throw new HttpError(400, "That is already your email address");
+  }
+  await assertEmailAvailable(db, email, user.id);
+
+  const { token, expiresAt } = await issueToken(user.id, email, "email_change");
+  await getMailer().send({
+    to: email,
+    subject: "Confirm your new email address",
+    text: `Confirm the change of your account's email address to ${email} by opening the link below.\n\n${link("/confirm-email-change", token)}\n\nThe link expires in 24 hours.`,
+  });
+  if (profile.email && profile.emailVerifiedAt) {
+    await getMailer().send({
+      to: profile.email,
+      subject: "Your email address is being changed",
+      text: `Someone asked to change your account's email address to ${email}. If this was not you, change your password; the address stays the same unless the new one is confirmed.`,
+    });
+  }
+  return { sentTo: email, expiresAt };
+}
+
+export async function confirmEmailChange(token: string) {
+  const provider = getIdentityProvider();
+  return consumeToken(token, "email_change", async (tx, row) => {
+    await setVerifiedEmail(tx, row.userId, row.email);
+    await provider.updateUser(row.userId, { email: row.email });
+    return { email: row.email, verified: true };
+  });
+}
+
+async function sendPasswordReset(email: string) {
+  const [profile] = await db
+    .select({ id: profiles.id, email: profiles.email })
+    .from(profiles)
+    .where(and(sql`lower(${profiles.email}) = ${email.toLowerCase()}`, isNotNull(profiles.emailVerifiedAt)))
+    .limit(1);
+  if (!profile?.email) return;
+
+  let issued;
+  try {
+    issued = await issueToken(profile.id, profile.email, "password_reset");
+  } catch (error) {
+    if (error instanceof HttpError && error.status === 429) return;
+    throw error;
+  }
+  await getMailer().send({
+    to: profile.email,
+    subject: "Reset your password",
+    text: `Choose a new password by opening the link below.\n\n${link("/reset-password", issued.token)}\n\nThe link expires in 1 hour. If you did not ask for this, you can ignore this email.`,
+  });
+}
+
+/**
+ * Emails a reset link if the address belongs to a verified account. The work
+ * happens after the caller has returned and failures are only logged, so
+ * neither the response nor its timing shows which addresses have accounts.
+ */
+export function requestPasswordReset(email: string) {
+  sendPasswordReset(email).catch((error) => console.error("Error sending password reset:", error));
+}
+
+export async function resetPassword(token: string, password: string) {
+  const provider = getIdentityProvider();
+  await consumeToken(token, "password_reset", async (_tx, row) => {
+    await provider.updateUser(row.userId, { password });
+  });
+}
@@ -0,0 +1,173 @@
+import OpenAI from "openai";
+import { and, count, eq, gt, min, sql } from "drizzle-orm";
+import { db } from "./db";
+import { aiUsageLogs } from "@shared/schema";
+import { HttpError } from "./errors";
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface CompletionOptions {
+  maxTokens?: number;
+  temperature?: number;
+  // Ask for a single JSON object as the response.
+  json?: boolean;
+  signal?: AbortSignal;
+}
+
+export type CompletionChunk =
+  | { type: "delta"; text: string }
+  | { type: "usage"; usage: TokenUsage };
+
+export interface AIProvider {
+  readonly name: string;
+  readonly model: string;
+  stream(messages: ChatMessage[], options?: CompletionOptions): AsyncIterable<CompletionChunk>;
+}
+
+/** Talks to OpenAI or any server implementing its chat completions API. */
+export class OpenAICompatibleProvider implements AIProvider {
+  readonly name = "openai";
+
+  constructor(private client: OpenAI, readonly model: string) {}
+
+  async *stream(messages: ChatMessage[], options: CompletionOptions = {}): AsyncIterable<CompletionChunk> {
+    const stream = await this.client.chat.completions.create({
+      model: this.model,
+      messages,
+      stream: true,
+      stream_options: { include_usage: true },
+      max_tokens: options.maxTokens,
+      temperature: options.temperature,
+      response_format: options.json ? { type: "json_object" } : undefined,
+    }, { signal: options.signal });
+
+    for await (const chunk of stream) {
+      const text = chunk.choices[0]?.delta?.content;
+      if (text) {
+        yield { type: "delta", text };
+      }
+      if (chunk.usage) {
+        yield {
+          type: "usage",
+          usage: { promptTokens: chunk.usage.prompt_tokens, completionTokens: chunk.usage.completion_tokens },
+        };
+      }
+    }
+  }
+}
+
+function createDefaultProvider(): AIProvider {
+  const apiKey = process.env.AI_API_KEY || process.env.OPENAI_API_KEY;
+  const baseURL = process.env.AI_BASE_URL || undefined;
+  if (!apiKey && !baseURL) {
+    throw new HttpError(503, "AI assistance is not configured on this server");
+  }
+  // Local OpenAI-compatible servers usually ignore the key, but the SDK requires one.
+  const client = new OpenAI({ apiKey: apiKey || "unused", baseURL, maxRetries: 1 });
+  return new OpenAICompatibleProvider(client, process.env.AI_MODEL || "gpt-4o-mini");
+}
+
+let providerFactory: () => AIProvider = createDefaultProvider;
+let provider: AIProvider | undefined;
+
+export function setAIProviderFactory(factory: () => AIProvider) {
+  providerFactory = factory;
+  provider = undefined;
+}
+
+export function getAIProvider() {
+  provider ??= providerFactory();
+  return provider;
+}
+
+function mapAIError(error: any): Error {
+  if (error instanceof HttpError || error?.name === "AbortError") {
+    return error;
+  }
+  if (error instanceof OpenAI.APIError) {
+    return new HttpError(502, `AI provider request failed: ${error.message}`);
+  }
+  return error;
+}
+
+/** Runs a completion to the end and returns the whole response. */
+export async function completeChat(aiProvider: AIProvider, messages: ChatMessage[], options: CompletionOptions = {}) {
+  let content = "";
+  let usage: TokenUsage = { promptTokens: 0, completionTokens: 0 };
+  try {
+    for await (const chunk of aiProvider.stream(messages, options)) {
+      if (chunk.type === "delta") content += chunk.text;
+      else usage = chunk.usage;
+    }
+  } catch (error) {
+    throw mapAIError(error);
+  }
+  return { content, usage };
+}
+
+export async function* streamChat(aiProvider: AIProvider, messages: ChatMessage[], options: CompletionOptions = {}) {
+  try {
+    yield* aiProvider.stream(messages, options);
+  } catch (error) {
+    throw mapAIError(error);
+  }
+}
+
+// Requests per user in a rolling hour, across every AI feature.
+export const AI_HOURLY_LIMIT = Number(process.env.AI_HOURLY_LIMIT) || 30;
+const RATE_WINDOW_MS = 60 * 60 * 1000;
+
+/**
+ * Reserves one request against the user's hourly budget and opens a usage log
+ * row for it. Call `finish` with the outcome once the request completes.
+ */
+export async function startAIUsage(userId: string, feature: string, mode?: string) {
+  const aiProvider = getAIProvider();
+  const startedAt = Date.now();
+
+  const logId = await db.transaction(async (tx) => {
+    await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${`ai-usage:${userId}`}))`);
+
+    const [window] = await tx
+      .select({ used: count(), oldest: min(aiUsageLogs.createdAt) })
+      .from(aiUsageLogs)
+      .where(and(eq(aiUsageLogs.userId, userId), gt(aiUsageLogs.createdAt, new Date(startedAt - RATE_WINDOW_MS))));
+
+    if (window.used >= AI_HOURLY_LIMIT) {
+      const retryAfter = window.oldest
+        ? Math.max(1, Math.ceil((window.oldest.getTime() + RATE_WINDOW_MS - startedAt) / 1000))
+        : RATE_WINDOW_MS / 1000;
+      throw new HttpError(429, `AI requests are limited to ${AI_HOURLY_LIMIT} per hour`, { retryAfter });
+    }
+
+    const [log] = await tx
+      .insert(aiUsageLogs)
+      .values({ userId, feature, mode, provider: aiProvider.name, model: aiProvider.model })
+      .returning({ id: aiUsageLogs.id });
+    return log.id;
+  });
+
+  const finish = async (outcome: { usage?: TokenUsage; error?: unknown }) => {
+    const error = outcome.error as { name?: string; message?: string } | undefined;
+    await db
+      .update(aiUsageLogs)
+      .set({
+        status: !error ? "completed" : error.name === "AbortError" ? "aborted" : "failed",
+        promptTokens: outcome.usage?.promptTokens ?? 0,
+        completionTokens: outcome.usage?.completionTokens ?? 0,
+        durationMs: Date.now() - startedAt,
+        error: error?.message ?? null,
+      })
+      .where(eq(aiUsageLogs.id, logId));
+  };
+
+  return { provider: aiProvider, finish };
+}
@@ -0,0 +1,315 @@
+import { PassThrough, pipeline, Readable } from "stream";
+import { createGzip, gunzipSync } from "zlib";
+import { asc, eq } from "drizzle-orm";
+import { strToU8, unzipSync, Zip, ZipDeflate, ZipPassThrough } from "fflate";
+import tar from "tar-stream";
+import { db } from "./db";
+import {
+  projectFiles,
+  projects,
+  type ArchiveFormat,
+  type CodeSnippet,
+  type Project,
+  type ProjectFile,
+} from "@shared/schema";
+import type { Upload } from "./attachments";
+import type { AuthUser } from "./auth";
+import { HttpError } from "./errors";
+import { decodeText, MAX_SYNC_FILE_BYTES } from "./github";
+import { extensionForLanguage } from "./languages";
+import { ensureFolder, lockProjectTree, splitPath, writeFileAtPath, type Transaction } from "./projectFiles";
+
+export const MAX_ARCHIVE_BYTES = Number(process.env.MAX_ARCHIVE_BYTES) || 20 * 1024 * 1024;
+// Limits on what an archive may unpack to, so a small upload cannot expand
+// into something that exhausts memory.
+const MAX_UNPACKED_BYTES = Number(process.env.MAX_ARCHIVE_UNPACKED_BYTES) || 50 * 1024 * 1024;
+const MAX_ARCHIVE_ENTRIES = 5000;
+
+const CONTENT_TYPES: Record<ArchiveFormat, string> = {
+  zip: "application/zip",
+  "tar.gz": "application/gzip",
+};
+
+export interface ArchiveContents {
+  files: { path: string; content: string }[];
+  // Folders listed in the archive, so empty ones survive the round trip.
+  folders: string[];
+  // Binary, oversized and unsafely named entries.
+  skipped: string[];
+}
+
+/** A file name for downloads: the title with anything unusual replaced. */
+function fileBaseName(title: string | null | undefined, fallback: string) {
+  const base = (title ?? "")
+    .trim()
+    .replace(/[^\w.-]+/g, "-")
+    .replace(/^[-.]+|[-.]+$/g, "")
+    .slice(0, 100);
+  return base || fallback;
+}
+
+/** A snippet as a single file named after its title, with its language's extension. */
+export function exportSnippetFile(snippet: CodeSnippet) {
+  return {
+    fileName: `${fileBaseName(snippet.title, "snippet")}.${extensionForLanguage(snippet.language)}`,
+    content: snippet.content ?? "",
+  };
+}
+
+function zipStream(nodes: ProjectFile[]): Readable {
+  const output = new PassThrough();
+  const zip = new Zip((error, chunk, final) => {
+    if (error) {
+      output.destroy(error);
+      return;
+    }
+    output.write(chunk);
+    if (final) output.end();
+  });
+
+  for (const node of nodes) {
+    if (node.type === "folder") {
+      const entry = new ZipPassThrough(`${node.path}/`);
+      entry.mtime = node.updatedAt;
+      zip.add(entry);
+      entry.push(new Uint8Array(0), true);
+    } else {
+      const entry = new ZipDeflate(node.path, { level: 6 });
+      entry.mtime = node.updatedAt;
+      zip.add(entry);
+      entry.push(strToU8(node.content ?? ""), true);
+    }
+  }
+  zip.end();
+  return output;
+}
+
+function tarGzStream(nodes: ProjectFile[]): Readable {
+  const pack = tar.pack();
+  for (const node of nodes) {
+    if (node.type === "folder") {
+      pack.entry({ name: `${node.path}/`, type: "directory", mode: 0o755, mtime: node.updatedAt });
+    } else {
+      pack.entry({ name: node.path, mode: 0o644, mtime: node.updatedAt }, node.content ?? "");
+    }
+  }
+  pack.finalize();
+
+  return pipeline(pack, createGzip(), (error) => {
+    if (error) console.error("Error packing project archive:", error);
+  });
+}
+
+/** The project's file tree as a .zip or .tar.gz stream. */
+export async function exportProjectArchive(project: Project, format: ArchiveFormat) {
+  const nodes = await db
+    .select()
+    .from(projectFiles)
+    .where(eq(projectFiles.projectId, project.id))
+    .orderBy(asc(projectFiles.path));
+
+  return {
+    fileName: `${fileBaseName(project.name, "project")}.${format}`,
+    contentType: CONTENT_TYPES[format],
+    stream: format === "zip" ? zipStream(nodes) : tarGzStream(nodes),
+  };
+}
+
+class ArchiveReader {
+  readonly contents: ArchiveContents = { files: [], folders: [], skipped: [] };
+  private unpacked = 0;
+  private entries = 0;
+
+  // Counts an entry against the limits; false means skip it.
+  accept(name: string, size: number) {
+    this.entries += 1;
+    if (this.entries > MAX_ARCHIVE_ENTRIES) {
+      throw new HttpError(413, `Archives are limited to ${MAX_ARCHIVE_ENTRIES} entries`);
+    }
+    if (size > MAX_SYNC_FILE_BYTES) {
+      this.contents.skipped.push(name);
+      return false;
+    }
+    this.unpacked += size;
+    if (this.unpacked > MAX_UNPACKED_BYTES) {
+      throw new HttpError(413, `Archives are limited to ${Math.floor(MAX_UNPACKED_BYTES / (1024 * 1024))}MB unpacked`);
+    }
+    return true;
+  }
+
+  addFolder(name: string) {
+    const path = safePath(name);
+    if (path) this.contents.folders.push(path);
+  }
+
+  addFile(name: string, bytes: Buffer) {
+    const path = safePath(name);
+    const content = path ? decodeText(bytes) : null;
+    if (path && content != null) {
+      this.contents.files.push({ path, content });
+    } else {
+      this.contents.skipped.push(name);
+    }
+  }
+}
+
+// Archive paths normalized for the file tree, or null for anything that could
+// climb out of it or that is not a valid file name.
+function safePath(name: string) {
+  const path = name.replace(/\\/g, "/").replace(/^(\.\/)+/, "").replace(/\/+$/, "");
+  if (!path || path.startsWith("/") || path.split("/").includes("..")) return null;
+  try {
+    return splitPath(path).join("/");
+  } catch {
+    return null;
+  }
+}
+
+function isJunk(name: string) {
+  return name.startsWith("__MACOSX/") || name.split("/").pop() === ".DS_Store";
+}
+
+function readZip(data: Buffer, reader: ArchiveReader) {
+  let files;
+  try {
+    // Sizes are checked from the central directory before anything is
+    // inflated; each entry inflates into a buffer of its declared size.
+    files = unzipSync(data, {
+      filter: (file) => !isJunk(file.name) && reader.accept(file.name, file.originalSize),
+    });
+  } catch (error) {
+    if (error instanceof HttpError) throw error;
+    throw new HttpError(400, "The archive could not be read");
+  }
+
+  for (const [name, bytes] of Object.entries(files)) {
+    if (name.endsWith("/")) {
+      reader.addFolder(name);
+    } else {
+      reader.addFile(name, Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength));
+    }
+  }
+}
+
+async function readTarGz(data: Buffer, reader: ArchiveReader) {
+  let unpacked: Buffer;
+  try {
+    unpacked = gunzipSync(data, { maxOutputLength: MAX_UNPACKED_BYTES + 1024 * 1024 });
+  } catch (error: any) {
+    if (error?.code === "ERR_BUFFER_TOO_LARGE") {
+      throw new HttpError(413, `Archives are limited to ${Math.floor(MAX_UNPACKED_BYTES / (1024 * 1024))}MB unpacked`);
+    }
+    throw new HttpError(400, "The archive could not be read");
+  }
+
+  const extract = tar.extract();
+  extract.end(unpacked);
+  try {
+    for await (const entry of extract) {
+      const { name, type, size = 0 } = entry.header;
+      if (type === "directory" && !isJunk(name)) {
+        reader.accept(name, 0);
+        reader.addFolder(name);
+      } else if (type === "file" && !isJunk(name) && reader.accept(name, size)) {
+        const chunks: Buffer[] = [];
+        for await (const chunk of entry) chunks.push(chunk as Buffer);
+        reader.addFile(name, Buffer.concat(chunks));
+        continue;
+      } else if (type !== "directory" && type !== "file") {
+        // Links and devices have no place in a project tree.
+        reader.contents.skipped.push(name);
+      }
+      entry.resume();
+    }
+  } catch (error) {
+    if (error instanceof HttpError) throw error;
+    throw new HttpError(400, "The archive could not be read");
+  }
+}
+
+/*
+ * Archives made by zipping a folder, or by GitHub's download button, wrap
+ * everything in one top-level folder. That folder is dropped so the project
+ * gets its contents rather than a single folder.
+ */
+function stripCommonRoot(contents: ArchiveContents) {
+  const paths = [...contents.files.map((file) => file.path), ...contents.folders];
+  const root = paths[0]?.split("/")[0];
+  if (!root || !contents.files.every((file) => file.path.startsWith(`${root}/`))) return contents;
+  if (!contents.folders.every((folder) => folder === root || folder.startsWith(`${root}/`))) return contents;
+
+  const strip = (path: string) => path.slice(root.length + 1);
+  return {
+    files: contents.files.map((file) => ({ ...file, path: strip(file.path) })),
+    folders: contents.folders.filter((folder) => folder !== root).map(strip),
+    skipped: contents.skipped,
+  };
+}
+
+/** Unpacks an uploaded .zip or .tar.gz, telling them apart by their leading bytes. */
+export async function readArchive(upload: Upload): Promise<ArchiveContents> {
+  const reader = new ArchiveReader();
+  const { data } = upload;
+  if (data[0] === 0x50 && data[1] === 0x4b) {
+    readZip(data, reader);
+  } else if (data[0] === 0x1f && data[1] === 0x8b) {
+    await readTarGz(data, reader);
+  } else {
+    throw new HttpError(415, "Archives must be .zip or .tar.gz files");
+  }
+  return stripCommonRoot(reader.contents);
+}
+
+async function writeArchive(tx: Transaction, projectId: string, contents: ArchiveContents) {
+  const folders = new Map<string, string>();
+  for (const folder of contents.folders) {
+    await ensureFolder(tx, projectId, folder, folders);
+  }
+  for (const file of contents.files) {
+    await writeFileAtPath(tx, projectId, file.path, { content: file.content }, folders);
+  }
+  return { imported: contents.files.length, folders: folders.size, skipped: contents.skipped };
+}
+
+/**
+ * Replaces a project's files with an archive's. A project that already has
+ * files is only overwritten when `replace` is set, as with GitHub imports.
+ */
+export async function importArchiveIntoProject(project: Project, contents: ArchiveContents, replace: boolean) {
+  return db.transaction(async (tx) => {
+    await lockProjectTree(tx, project.id);
+
+    const [existing] = await tx
+      .select({ id: projectFiles.id })
+      .from(projectFiles)
+      .where(eq(projectFiles.projectId, project.id))
+      .limit(1);
+    if (existing && !replace) {
+      throw new HttpError(409, "Project already has files; set replace to overwrite them");
+    }
+    await tx.delete(projectFiles).where(eq(projectFiles.projectId, project.id));
+
+    const result = await writeArchive(tx, project.id, contents);
+    await tx.update(projects).set({ updatedAt: new Date() }).where(eq(projects.id, project.id));
+    return result;
+  });
+}
+
+/** Creates a project holding an archive's files, named after the archive unless `name` is given. */
+export async function createProjectFromArchive(
+  user: AuthUser,
+  upload: Upload,
+  contents: ArchiveContents,
+  options: { name?: string; description?: string },
+) {
+  const name = options.name ?? (upload.fileName.replace(/\.(zip|tar\.gz|tgz)$/i, "") || "Imported project");
+
+  return db.transaction(async (tx) => {
+    const [project] = await tx
+      .insert(projects)
+      .values({ ownerId: user.id, name, description: options.description })
+      .returning();
+    const result = await writeArchive(tx, project.id, contents);
+    return { project: { ...project, role: "owner" }, ...result };
+  });
+}
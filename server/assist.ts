@@ -0,0 +1,231 @@
+import { createTwoFilesPatch } from "diff";
+import { and, asc, eq } from "drizzle-orm";
+import { db } from "./db";
+import { projectFiles, type AssistRequest } from "@shared/schema";
+import type { AuthUser } from "./auth";
+import { loadProject, loadSnippetByToken } from "./access";
+import { streamChat, startAIUsage, type ChatMessage, type TokenUsage } from "./ai";
+import { HttpError } from "./errors";
+import { extensionForLanguage, languageForPath, normalizeLanguage } from "./languages";
+
+export type AssistMode = AssistRequest["mode"];
+
+// Rough cap on how much file content goes into a prompt.
+const CONTEXT_CHAR_BUDGET = 48_000;
+
+interface ContextFile {
+  path: string;
+  language: string | null;
+  content: string;
+  fileId: string | null;
+}
+
+interface AssistContext {
+  source: "code" | "snippet" | "project";
+  // The file the request is about; null for a whole-project request.
+  primary: ContextFile | null;
+  files: ContextFile[];
+  tree: string[];
+}
+
+export interface AssistSuggestion {
+  path: string;
+  fileId: string | null;
+  action: "modify" | "create";
+  content: string;
+  patch: string;
+}
+
+const MODE_INSTRUCTIONS: Record<AssistMode, string> = {
+  explain: "Explain what the code does, step by step, and point out anything surprising or risky. Do not rewrite the code.",
+  refactor: "Refactor the code for readability and maintainability without changing its behaviour. Briefly explain each change.",
+  "fix-error": "Find the cause of the error and fix it. Explain the cause first, then give the fix.",
+  "write-tests": "Write thorough unit tests for the code using the idiomatic test framework for its language. Cover edge cases.",
+};
+
+const EDIT_FORMAT = [
+  "When you change or create files, give the complete new content of each file in its own fenced code block,",
+  "with the language and the file path in the info string, for example:",
+  "```typescript path=src/utils.ts",
+  "// full file content",
+  "```",
+  "Only include files you change or create, and never abbreviate their content.",
+].join("\n");
+
+function pathForLanguage(language: string | null | undefined) {
+  return `main.${extensionForLanguage(language)}`;
+}
+
+async function loadAssistContext(request: AssistRequest, user: AuthUser): Promise<AssistContext> {
+  if (request.shareToken) {
+    const snippet = await loadSnippetByToken(request.shareToken, user, "read");
+    const language = normalizeLanguage(request.language ?? snippet.language);
+    const primary = {
+      path: pathForLanguage(language),
+      language,
+      // Unsaved editor content takes precedence over what is stored.
+      content: request.code ?? snippet.content ?? "",
+      fileId: null,
+    };
+    return { source: "snippet", primary, files: [primary], tree: [primary.path] };
+  }
+
+  if (request.projectId) {
+    const { project } = await loadProject(request.projectId, user, "viewer");
+    const nodes = await db
+      .select()
+      .from(projectFiles)
+      .where(and(eq(projectFiles.projectId, project.id), eq(projectFiles.type, "file")))
+      .orderBy(asc(projectFiles.path));
+
+    let primary: ContextFile | null = null;
+    if (request.fileId) {
+      const node = nodes.find((file) => file.id === request.fileId);
+      if (!node) {
+        throw new HttpError(404, "File not found");
+      }
+      primary = {
+        path: node.path,
+        language: node.language ?? languageForPath(node.path),
+        content: request.code ?? node.content ?? "",
+        fileId: node.id,
+      };
+    }
+
+    // The primary file always goes in; other files fill the remaining budget.
+    const files: ContextFile[] = primary ? [primary] : [];
+    let budget = CONTEXT_CHAR_BUDGET - (primary?.content.length ?? 0);
+    for (const node of nodes) {
+      const content = node.content ?? "";
+      if (node.id === primary?.fileId || content.length > budget) continue;
+      files.push({ path: node.path, language: node.language, content, fileId: node.id });
+      budget -= content.length;
+    }
+
+    return { source: "project", primary, files, tree: nodes.map((node) => node.path) };
+  }
+
+  const language = normalizeLanguage(request.language);
+  const primary = { path: pathForLanguage(language), language, content: request.code ?? "", fileId: null };
+  return { source: "code", primary, files: [primary], tree: [primary.path] };
+}
+
+function fence(file: ContextFile) {
+  return `\`\`\`${file.language ?? ""} path=${file.path}\n${file.content}\n\`\`\``;
+}
+
+function buildMessages(request: AssistRequest, context: AssistContext): ChatMessage[] {
+  const system = [
+    "You are a senior software engineer helping a developer inside a collaborative code editor.",
+    MODE_INSTRUCTIONS[request.mode],
+    request.mode === "explain" ? "" : EDIT_FORMAT,
+  ].filter(Boolean).join("\n\n");
+
+  const sections: string[] = [];
+  if (context.source === "project") {
+    sections.push(`Project files:\n${context.tree.map((path) => `- ${path}`).join("\n")}`);
+  }
+  if (context.primary) {
+    sections.push(`The request is about ${context.primary.path}.`);
+  }
+  sections.push(context.files.map(fence).join("\n\n"));
+  if (request.error) {
+    sections.push(`Error output:\n\`\`\`\n${request.error}\n\`\`\``);
+  }
+  if (request.prompt) {
+    sections.push(request.prompt);
+  }
+
+  return [
+    { role: "system", content: system },
+    { role: "user", content: sections.join("\n\n") },
+  ];
+}
+
+function defaultTestPath(file: ContextFile | null) {
+  if (!file) return "tests/main.test.ts";
+  const slash = file.path.lastIndexOf("/");
+  const dir = file.path.slice(0, slash + 1);
+  const name = file.path.slice(slash + 1);
+  const dot = name.lastIndexOf(".");
+  const stem = dot > 0 ? name.slice(0, dot) : name;
+  const extension = dot > 0 ? name.slice(dot) : `.${extensionForLanguage(file.language)}`;
+
+  if (normalizeLanguage(file.language) === "python") return `${dir}test_${stem}${extension}`;
+  if (/^\.[mc]?[jt]sx?$/.test(extension)) return `${dir}${stem}.test${extension}`;
+  return `${dir}${stem}_test${extension}`;
+}
+
+const CODE_BLOCK = /```([^\s`]*)([^\n`]*)\n([\s\S]*?)```/g;
+
+/*
+ * Turns the fenced blocks in a response into file suggestions with a unified
+ * diff against the current content. A block without a path applies to the
+ * primary file, or to a new test file in write-tests mode.
+ */
+function parseSuggestions(response: string, context: AssistContext, mode: AssistMode): AssistSuggestion[] {
+  if (mode === "explain") return [];
+
+  const byPath = new Map<string, AssistSuggestion>();
+  for (const match of response.matchAll(CODE_BLOCK)) {
+    const explicitPath = /path=("?)([^\s"]+)\1/.exec(match[2])?.[2];
+    const path = explicitPath?.replace(/^\.?\//, "")
+      ?? (mode === "write-tests" ? defaultTestPath(context.primary) : context.primary?.path);
+    if (!path) continue;
+
+    const existing = context.files.find((file) => file.path === path);
+    // Files left out of the prompt cannot have been edited meaningfully.
+    if (!existing && context.tree.includes(path)) continue;
+    const before = existing?.content ?? "";
+    const content = match[3];
+    if (existing && content.trimEnd() === before.trimEnd()) continue;
+
+    byPath.set(path, {
+      path,
+      fileId: existing?.fileId ?? null,
+      action: existing ? "modify" : "create",
+      content,
+      patch: createTwoFilesPatch(existing ? path : "/dev/null", path, before, content, undefined, undefined, { context: 3 }),
+    });
+  }
+  return [...byPath.values()];
+}
+
+/**
+ * Runs an assist request, passing response text to `onDelta` as it arrives.
+ * Access to the snippet or project is checked before any usage is counted.
+ */
+export async function runAssist(request: AssistRequest, user: AuthUser, handlers: {
+  signal?: AbortSignal;
+  onDelta?: (text: string) => void;
+} = {}) {
+  const context = await loadAssistContext(request, user);
+  const messages = buildMessages(request, context);
+  const { provider, finish } = await startAIUsage(user.id, "assist", request.mode);
+
+  let content = "";
+  let usage: TokenUsage = { promptTokens: 0, completionTokens: 0 };
+  try {
+    const chunks = streamChat(provider, messages, { signal: handlers.signal, maxTokens: 4096, temperature: 0.2 });
+    for await (const chunk of chunks) {
+      if (chunk.type === "usage") {
+        usage = chunk.usage;
+        continue;
+      }
+      content += chunk.text;
+      handlers.onDelta?.(chunk.text);
+    }
+  } catch (error) {
+    await finish({ usage, error });
+    throw error;
+  }
+  await finish({ usage });
+
+  return {
+    mode: request.mode,
+    model: provider.model,
+    content,
+    suggestions: parseSuggestions(content, context, request.mode),
+    usage,
+  };
+}
@@ -0,0 +1,314 @@
+import { createHash, createHmac, randomUUID, timingSafeEqual } from "crypto";
+import path from "path";
+import type { Request } from "express";
+import Busboy from "busboy";
+import sharp from "sharp";
+import { eq, inArray } from "drizzle-orm";
+import { db } from "./db";
+import { attachments, type Attachment } from "@shared/schema";
+import type { AuthUser } from "./auth";
+import { loadSnippetById, loadTicket } from "./access";
+import { HttpError } from "./errors";
+import { getStorage } from "./storage";
+
+export const MAX_ATTACHMENT_BYTES = Number(process.env.MAX_ATTACHMENT_BYTES) || 10 * 1024 * 1024;
+// How long a download link works once issued.
+const SIGNED_URL_TTL_SECONDS = Number(process.env.ATTACHMENT_URL_TTL_SECONDS) || 15 * 60;
+const THUMBNAIL_SIZE = 320;
+const MAX_FILE_NAME_LENGTH = 200;
+
+const IMAGE_TYPES = new Set(["image/png", "image/jpeg", "image/gif", "image/webp"]);
+const TEXT_TYPES = new Set(["text/plain", "text/markdown", "text/csv", "application/json"]);
+// Text that claims to be one of these is rejected rather than downgraded to text/plain.
+const MARKUP_TYPE = /^(image\/|text\/html|application\/(xhtml\+)?xml|text\/xml)/;
+
+/*
+ * Everything else is rejected, including SVG and HTML, which a browser would
+ * run scripts from if they were ever served inline.
+ */
+export const ALLOWED_CONTENT_TYPES = [...IMAGE_TYPES, "application/pdf", "application/zip", ...TEXT_TYPES];
+
+export type AttachmentVariant = "original" | "thumbnail";
+
+export interface Upload {
+  fileName: string;
+  declaredType: string;
+  data: Buffer;
+  fields: Record<string, string>;
+}
+
+/**
+ * Reads a multipart body holding one file in a field named "file". The file is
+ * buffered in memory, which the size limit keeps bounded.
+ */
+export function readUpload(req: Request, maxBytes = MAX_ATTACHMENT_BYTES): Promise<Upload> {
+  if (!req.is("multipart/form-data")) {
+    return Promise.reject(new HttpError(415, "Expected a multipart/form-data body"));
+  }
+
+  return new Promise((resolve, reject) => {
+    let busboy: Busboy.Busboy;
+    try {
+      busboy = Busboy({
+        headers: req.headers,
+        limits: { files: 1, fileSize: maxBytes, fields: 10, fieldSize: 10_000 },
+      });
+    } catch {
+      return reject(new HttpError(400, "Malformed multipart body"));
+    }
+
+    let upload: Omit<Upload, "fields"> | undefined;
+    let failure: HttpError | undefined;
+    const fields: Record<string, string> = {};
+
+    busboy.on("field", (name, value) => {
+      fields[name] = value;
+    });
+    busboy.on("file", (field, stream, info) => {
+      if (field !== "file") {
+        stream.resume();
+        return;
+      }
+      const chunks: Buffer[] = [];
+      stream.on("data", (chunk: Buffer) => chunks.push(chunk));
+      stream.on("limit", () => {
+        failure = new HttpError(413, `Files are limited to ${Math.floor(maxBytes / (1024 * 1024))}MB`);
+      });
+      stream.on("end", () => {
+        if (!failure) {
+          upload = { fileName: info.filename, declaredType: info.mimeType, data: Buffer.concat(chunks) };
+        }
+      });
+    });
+    busboy.on("error", () => reject(new HttpError(400, "Malformed multipart body")));
+    busboy.on("close", () => {
+      if (failure) return reject(failure);
+      if (!upload) return reject(new HttpError(400, 'A file is required in the "file" field'));
+      resolve({ ...upload, fields });
+    });
+
+    req.pipe(busboy);
+  });
+}
+
+function isText(data: Buffer) {
+  if (data.includes(0)) return false;
+  // Invalid UTF-8 decodes to replacement characters and does not round-trip.
+  return Buffer.from(data.toString("utf8"), "utf8").equals(data);
+}
+
+/**
+ * Works out what a file really is from its leading bytes. The declared type
+ * is only trusted to pick between the text types, which share a signature.
+ */
+export function sniffContentType(data: Buffer, declaredType: string): string | null {
+  const ascii = (start: number, end: number) => data.subarray(start, end).toString("latin1");
+  const startsWith = (bytes: number[]) => bytes.every((byte, index) => data[index] === byte);
+
+  if (startsWith([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return "image/png";
+  if (startsWith([0xff, 0xd8, 0xff])) return "image/jpeg";
+  if (ascii(0, 6) === "GIF87a" || ascii(0, 6) === "GIF89a") return "image/gif";
+  if (ascii(0, 4) === "RIFF" && ascii(8, 12) === "WEBP") return "image/webp";
+  if (ascii(0, 5) === "%PDF-") return "application/pdf";
+  if (startsWith([0x50, 0x4b, 0x03, 0x04]) || startsWith([0x50, 0x4b, 0x05, 0x06])) return "application/zip";
+  const declared = declaredType.split(";")[0].trim().toLowerCase();
+  if (data.length > 0 && !MARKUP_TYPE.test(declared) && isText(data)) {
+    return TEXT_TYPES.has(declared) ? declared : "text/plain";
+  }
+  return null;
+}
+
+function sanitizeFileName(name: string | undefined) {
+  const base = path.basename((name ?? "").replace(/\\/g, "/"))
+    .replace(/[\u0000-\u001f\u007f"]/g, "")
+    .trim()
+    .slice(0, MAX_FILE_NAME_LENGTH);
+  return base || "upload";
+}
+
+/**
+ * Validates an upload, stores it (plus a WebP thumbnail for images) and records
+ * it against its snippet or ticket. Callers check access to the owner first.
+ */
+export async function storeAttachment(
+  upload: Upload,
+  owner: { snippetId: string } | { ticketId: string },
+  uploaderId: string,
+): Promise<Attachment> {
+  const contentType = sniffContentType(upload.data, upload.declaredType);
+  if (!contentType) {
+    throw new HttpError(415, `Unsupported file type. Allowed types: ${ALLOWED_CONTENT_TYPES.join(", ")}`);
+  }
+
+  let width: number | null = null;
+  let height: number | null = null;
+  let thumbnail: Buffer | null = null;
+  if (IMAGE_TYPES.has(contentType)) {
+    try {
+      const image = sharp(upload.data, { animated: false });
+      const metadata = await image.metadata();
+      width = metadata.width ?? null;
+      height = metadata.height ?? null;
+      thumbnail = await image
+        .rotate()
+        .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: "inside", withoutEnlargement: true })
+        .webp({ quality: 80 })
+        .toBuffer();
+    } catch {
+      throw new HttpError(415, "The image could not be decoded");
+    }
+  }
+
+  const id = randomUUID();
+  const scope = "snippetId" in owner ? `snippets/${owner.snippetId}` : `tickets/${owner.ticketId}`;
+  const storageKey = `${scope}/${id}`;
+  const thumbnailKey = thumbnail ? `${storageKey}.thumb.webp` : null;
+
+  const storage = getStorage();
+  await storage.put(storageKey, upload.data, contentType);
+  try {
+    if (thumbnail && thumbnailKey) {
+      await storage.put(thumbnailKey, thumbnail, "image/webp");
+    }
+    const [attachment] = await db
+      .insert(attachments)
+      .values({
+        id,
+        uploaderId,
+        ...owner,
+        storageKey,
+        thumbnailKey,
+        fileName: sanitizeFileName(upload.fileName),
+        contentType,
+        size: upload.data.length,
+        sha256: createHash("sha256").update(upload.data).digest("hex"),
+        width,
+        height,
+      })
+      .returning();
+    return attachment;
+  } catch (error) {
+    await Promise.allSettled([storage.delete(storageKey), thumbnailKey && storage.delete(thumbnailKey)]);
+    throw error;
+  }
+}
+
+/**
+ * Deletes the stored files of attachments whose rows are gone, such as those
+ * removed with their snippet. Failures are logged rather than thrown; the rows
+ * no longer point at the files either way.
+ */
+export async function deleteAttachmentFiles(rows: Pick<Attachment, "storageKey" | "thumbnailKey">[]) {
+  const storage = getStorage();
+  const keys = rows.flatMap((row) => (row.thumbnailKey ? [row.storageKey, row.thumbnailKey] : [row.storageKey]));
+  const results = await Promise.allSettled(keys.map((key) => storage.delete(key)));
+  for (const result of results) {
+    if (result.status === "rejected") console.error("Error deleting attachment file:", result.reason);
+  }
+}
+
+/** Storage keys of every attachment on the given snippets. */
+export function attachmentFilesForSnippets(snippetIds: string[]) {
+  return db
+    .select({ snippetId: attachments.snippetId, storageKey: attachments.storageKey, thumbnailKey: attachments.thumbnailKey })
+    .from(attachments)
+    .where(inArray(attachments.snippetId, snippetIds));
+}
+
+export async function deleteAttachment(attachment: Attachment) {
+  await db.delete(attachments).where(eq(attachments.id, attachment.id));
+  await deleteAttachmentFiles([attachment]);
+}
+
+export function isImageAttachment(attachment: Pick<Attachment, "contentType">) {
+  return IMAGE_TYPES.has(attachment.contentType);
+}
+
+/** Storage keys stay server-side. */
+export function toPublicAttachment(attachment: Attachment) {
+  const { storageKey, thumbnailKey, ...rest } = attachment;
+  return { ...rest, hasThumbnail: Boolean(thumbnailKey) };
+}
+
+/** Loads an attachment, applying the access rules of the snippet or ticket it belongs to. */
+export async function loadAttachment(attachmentId: string, user: AuthUser | undefined) {
+  const [attachment] = await db
+    .select()
+    .from(attachments)
+    .where(eq(attachments.id, attachmentId))
+    .limit(1);
+
+  if (!attachment) {
+    throw new HttpError(404, "Attachment not found");
+  }
+  if (attachment.snippetId) {
+    await loadSnippetById(attachment.snippetId, user, "read");
+  } else if (attachment.ticketId) {
+    await loadTicket(attachment.ticketId, user);
+  } else {
+    throw new HttpError(404, "Attachment not found");
+  }
+  return attachment;
+}
+
+function signingKey() {
+  const secret = process.env.ATTACHMENT_SIGNING_SECRET || process.env.AUTH_JWT_SECRET;
+  if (!secret) {
+    throw new Error("ATTACHMENT_SIGNING_SECRET or AUTH_JWT_SECRET must be set to sign download links");
+  }
+  return secret;
+}
+
+function sign(attachmentId: string, variant: AttachmentVariant, expires: number) {
+  return createHmac("sha256", signingKey()).update(`${attachmentId}:${variant}:${expires}`).digest("base64url");
+}
+
+/**
+ * A download link that works without a session until it expires, so it can
+ * be used directly as an <img> or <a> target.
+ */
+export function signedAttachmentUrl(attachmentId: string, variant: AttachmentVariant = "original") {
+  const expires = Math.floor(Date.now() / 1000) + SIGNED_URL_TTL_SECONDS;
+  const query = new URLSearchParams({ variant, expires: String(expires), signature: sign(attachmentId, variant, expires) });
+  return {
+    url: `/api/attachments/${attachmentId}/download?${query}`,
+    expiresAt: new Date(expires * 1000),
+  };
+}
+
+export function verifyAttachmentSignature(attachmentId: string, query: Record<string, unknown>): AttachmentVariant {
+  const variant = query.variant === "thumbnail" ? "thumbnail" : "original";
+  const expires = Number(query.expires);
+  const signature = typeof query.signature === "string" ? query.signature : "";
+
+  const expected = Buffer.from(sign(attachmentId, variant, expires));
+  const actual = Buffer.from(signature);
+  if (
+    !Number.isInteger(expires)
+    || expires * 1000 < Date.now()
+    || actual.length !== expected.length
+    || !timingSafeEqual(actual, expected)
+  ) {
+    throw new HttpError(403, "This download link is invalid or has expired");
+  }
+  return variant;
+}
+
+/** Opens the stored bytes for a verified download. */
+export async function openAttachment(attachmentId: string, variant: AttachmentVariant) {
+  const [attachment] = await db
+    .select()
+    .from(attachments)
+    .where(eq(attachments.id, attachmentId))
+    .limit(1);
+
+  const key = variant === "thumbnail" ? attachment?.thumbnailKey : attachment?.storageKey;
+  if (!attachment || !key) {
+    throw new HttpError(404, "Attachment not found");
+  }
+  return {
+    attachment,
+    contentType: variant === "thumbnail" ? "image/webp" : attachment.contentType,
+    stream: await getStorage().get(key),
+  };
+}
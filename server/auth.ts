@@ -0,0 +1,173 @@
+import type { Request, Response, NextFunction } from "express";
+import { createHmac, timingSafeEqual } from "crypto";
+import { eq } from "drizzle-orm";
+import { db } from "./db";
+import { profiles } from "@shared/schema";
+import { HttpError } from "./errors";
+
+export interface AuthUser {
+  id: string;
+  username: string | null;
+  email: string | null;
+  role: "user" | "admin";
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthUser;
+    }
+  }
+}
+
+if (!process.env.AUTH_JWT_SECRET) {
+  throw new Error(
+    "AUTH_JWT_SECRET must be set. It is the HS256 key used to verify session tokens.",
+  );
+}
+
+const JWT_SECRET = process.env.AUTH_JWT_SECRET;
+const JWT_AUDIENCE = process.env.AUTH_JWT_AUDIENCE;
+const CLOCK_SKEW_SECONDS = 30;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function sign(input: string) {
+  return createHmac("sha256", JWT_SECRET).update(input).digest();
+}
+
+function decodeSegment(segment: string) {
+  try {
+    return JSON.parse(Buffer.from(segment, "base64url").toString("utf8"));
+  } catch {
+    throw new HttpError(401, "Malformed token");
+  }
+}
+
+/**
+ * Verifies an HS256 JWT and maps its claims to a user. `sub` is the user id;
+ * an "admin" role may be given either as `role` or, for Supabase-issued
+ * tokens, as `app_metadata.role`.
+ */
+export function verifyToken(token: string): AuthUser {
+  const [headerSegment, payloadSegment, signatureSegment, ...rest] = token.split(".");
+  if (!headerSegment || !payloadSegment || !signatureSegment || rest.length > 0) {
+    throw new HttpError(401, "Malformed token");
+  }
+
+  const header = decodeSegment(headerSegment);
+  if (header?.alg !== "HS256") {
+    throw new HttpError(401, "Unsupported token algorithm");
+  }
+
+  const expected = sign(`${headerSegment}.${payloadSegment}`);
+  const actual = Buffer.from(signatureSegment, "base64url");
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw new HttpError(401, "Invalid token signature");
+  }
+
+  const claims = decodeSegment(payloadSegment);
+  const now = Math.floor(Date.now() / 1000);
+  if (typeof claims.exp === "number" && claims.exp + CLOCK_SKEW_SECONDS < now) {
+    throw new HttpError(401, "Token expired");
+  }
+  if (typeof claims.nbf === "number" && claims.nbf - CLOCK_SKEW_SECONDS > now) {
+    throw new HttpError(401, "Token not yet valid");
+  }
+  if (JWT_AUDIENCE) {
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!audiences.includes(JWT_AUDIENCE)) {
+      throw new HttpError(401, "Token audience mismatch");
+    }
+  }
+  if (typeof claims.sub !== "string" || !UUID_PATTERN.test(claims.sub)) {
+    throw new HttpError(401, "Token subject must be a user id");
+  }
+
+  const isAdmin = claims.role === "admin" || claims.app_metadata?.role === "admin";
+  return {
+    id: claims.sub,
+    username: typeof claims.username === "string" ? claims.username : null,
+    email: typeof claims.email === "string" ? claims.email : null,
+    role: isAdmin ? "admin" : "user",
+  };
+}
+
+/** Issues a token in the format `verifyToken` accepts. */
+export function signToken(
+  user: Pick<AuthUser, "id"> & Partial<AuthUser>,
+  expiresInSeconds = 60 * 60 * 24 * 7,
+): string {
+  const now = Math.floor(Date.now() / 1000);
+  const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString("base64url");
+  const header = encode({ alg: "HS256", typ: "JWT" });
+  const payload = encode({
+    sub: user.id,
+    username: user.username ?? undefined,
+    email: user.email ?? undefined,
+    role: user.role ?? "user",
+    aud: JWT_AUDIENCE,
+    iat: now,
+    exp: now + expiresInSeconds,
+  });
+  return `${header}.${payload}.${sign(`${header}.${payload}`).toString("base64url")}`;
+}
+
+/** Reads a bearer token from the Authorization header, or `access_token` for WebSockets. */
+export function tokenFromRequest(req: { headers: Request["headers"]; url?: string }): string | null {
+  const header = req.headers.authorization;
+  if (header) {
+    const [scheme, token] = header.split(" ");
+    if (scheme?.toLowerCase() !== "bearer" || !token) {
+      throw new HttpError(401, "Authorization header must be a bearer token");
+    }
+    return token;
+  }
+  if (req.url) {
+    return new URL(req.url, "http://localhost").searchParams.get("access_token");
+  }
+  return null;
+}
+
+/** Attaches `req.user` when a valid token is present; rejects invalid tokens. */
+export function authenticate(req: Request, res: Response, next: NextFunction) {
+  try {
+    const token = tokenFromRequest({ headers: req.headers });
+    if (token) {
+      req.user = verifyToken(token);
+    }
+    next();
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    next(error);
+  }
+}
+
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.user) {
+    return res.status(401).json({ error: "Authentication required" });
+  }
+  next();
+}
+
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  if (!req.user) {
+    return res.status(401).json({ error: "Authentication required" });
+  }
+  if (req.user.role !== "admin") {
+    return res.status(403).json({ error: "Admin access required" });
+  }
+  next();
+}
+
+/** Display name for a user: their profile username, then the token's, then their email. */
+export async function resolveUsername(user: AuthUser): Promise<string> {
+  const [profile] = await db
+    .select({ username: profiles.username })
+    .from(profiles)
+    .where(eq(profiles.id, user.id))
+    .limit(1);
+
+  return profile?.username ?? user.username ?? user.email?.split("@")[0] ?? "Anonymous";
+}
@@ -0,0 +1,276 @@
+import { and, asc, desc, eq, inArray, isNull, lt, lte, or, sql } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import { db } from "./db";
+import {
+  snippetCallParticipants,
+  snippetCalls,
+  type CodeSnippet,
+  type SnippetCall,
+} from "@shared/schema";
+import { resolveUsername, type AuthUser } from "./auth";
+import { publishToSnippet } from "./collab";
+import { HttpError } from "./errors";
+import { getVideoProvider, type VideoEvent } from "./video";
+
+// An active call nobody has been in for this long is ended by the sweeper.
+const IDLE_TIMEOUT_MS = (Number(process.env.CALL_IDLE_MINUTES) || 10) * 60_000;
+// Rooms are created to expire at the provider after this long.
+const ROOM_TTL_MS = (Number(process.env.CALL_ROOM_TTL_HOURS) || 4) * 60 * 60_000;
+
+function roomExpiry(call: Pick<SnippetCall, "startedAt">) {
+  return new Date((call.startedAt ?? new Date()).getTime() + ROOM_TTL_MS);
+}
+
+export async function getActiveCall(snippetId: string) {
+  const [call] = await db
+    .select()
+    .from(snippetCalls)
+    .where(and(eq(snippetCalls.snippetId, snippetId), eq(snippetCalls.isActive, true)))
+    .orderBy(desc(snippetCalls.startedAt))
+    .limit(1);
+  return call ?? null;
+}
+
+/** The call plus everyone currently in it. */
+export async function withParticipants(call: SnippetCall) {
+  const participants = await db
+    .select({
+      userId: snippetCallParticipants.userId,
+      username: snippetCallParticipants.username,
+      joinedAt: snippetCallParticipants.joinedAt,
+    })
+    .from(snippetCallParticipants)
+    .where(and(eq(snippetCallParticipants.callId, call.id), isNull(snippetCallParticipants.leftAt)))
+    .orderBy(asc(snippetCallParticipants.joinedAt));
+  return { ...call, participants };
+}
+
+/**
+ * Returns the snippet's active call, creating a room for it if there is none.
+ * Creation is serialized per snippet so concurrent requests share one room.
+ */
+export async function ensureActiveCall(snippetId: string, startedBy: string) {
+  const provider = getVideoProvider();
+
+  const { call, created, stale } = await db.transaction(async (tx) => {
+    await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${`snippet-call:${snippetId}`}))`);
+
+    const active = await tx
+      .select()
+      .from(snippetCalls)
+      .where(and(eq(snippetCalls.snippetId, snippetId), eq(snippetCalls.isActive, true)))
+      .orderBy(desc(snippetCalls.startedAt));
+
+    // Only the newest call from the current provider is reused; any others
+    // (duplicates, or rooms from another provider) are ended.
+    const reusable = active.find((call) => call.provider === provider.name && roomExpiry(call) > new Date());
+    const stale = active.filter((call) => call !== reusable);
+    if (stale.length > 0) {
+      await tx
+        .update(snippetCalls)
+        .set({ isActive: false, endedAt: new Date(), participantCount: 0, updatedAt: new Date() })
+        .where(inArray(snippetCalls.id, stale.map((call) => call.id)));
+      await tx
+        .update(snippetCallParticipants)
+        .set({ leftAt: new Date(), updatedAt: new Date() })
+        .where(and(inArray(snippetCallParticipants.callId, stale.map((call) => call.id)), isNull(snippetCallParticipants.leftAt)));
+    }
+    if (reusable) {
+      return { call: reusable, created: false, stale };
+    }
+
+    const startedAt = new Date();
+    const room = await provider.createRoom(`snippet-${snippetId}-${nanoid(8)}`, roomExpiry({ startedAt }));
+    const [call] = await tx
+      .insert(snippetCalls)
+      .values({
+        snippetId,
+        roomName: room.name,
+        roomUrl: room.url,
+        startedBy,
+        startedAt,
+        isActive: true,
+        provider: provider.name,
+        lastActivityAt: startedAt,
+      })
+      .returning();
+    return { call, created: true, stale };
+  });
+
+  for (const ended of stale) {
+    publishToSnippet(snippetId, { type: "call", event: "ended", call: { ...ended, isActive: false } });
+  }
+  if (created) {
+    publishToSnippet(snippetId, { type: "call", event: "started", call });
+  }
+  return call;
+}
+
+// Recounts open participant rows; returns undefined once the call has ended.
+async function refreshCall(callId: string) {
+  const [call] = await db
+    .update(snippetCalls)
+    .set({
+      participantCount: sql`(select count(*) from ${snippetCallParticipants} where ${snippetCallParticipants.callId} = ${callId} and ${snippetCallParticipants.leftAt} is null)`,
+      lastActivityAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .where(and(eq(snippetCalls.id, callId), eq(snippetCalls.isActive, true)))
+    .returning();
+  if (!call) return undefined;
+
+  const detailed = await withParticipants(call);
+  publishToSnippet(call.snippetId, { type: "call", event: "updated", call: detailed });
+  return detailed;
+}
+
+async function recordJoin(callId: string, userId: string, username: string | null, at: Date) {
+  await db
+    .insert(snippetCallParticipants)
+    .values({ callId, userId, username, joinedAt: at })
+    .onConflictDoUpdate({
+      target: [snippetCallParticipants.callId, snippetCallParticipants.userId],
+      set: {
+        joinedAt: at,
+        leftAt: null,
+        username: sql`coalesce(excluded.username, ${snippetCallParticipants.username})`,
+        updatedAt: new Date(),
+      },
+      // Webhooks can arrive out of order; an older join never undoes a newer leave.
+      setWhere: sql`coalesce(${snippetCallParticipants.leftAt}, ${snippetCallParticipants.joinedAt}) <= ${at}`,
+    });
+}
+
+async function recordLeave(callId: string, userId: string, at: Date) {
+  const rows = await db
+    .update(snippetCallParticipants)
+    .set({ leftAt: at, updatedAt: new Date() })
+    .where(and(
+      eq(snippetCallParticipants.callId, callId),
+      eq(snippetCallParticipants.userId, userId),
+      isNull(snippetCallParticipants.leftAt),
+      lte(snippetCallParticipants.joinedAt, at),
+    ))
+    .returning({ id: snippetCallParticipants.id });
+  return rows.length > 0;
+}
+
+/** Joins (or starts) the snippet's call and issues a token for the video room. */
+export async function joinCall(snippet: CodeSnippet, user: AuthUser) {
+  const call = await ensureActiveCall(snippet.id, user.id);
+  const username = await resolveUsername(user);
+
+  await recordJoin(call.id, user.id, username, new Date());
+  const current = await refreshCall(call.id);
+  if (!current) {
+    throw new HttpError(409, "The call ended while joining; try again");
+  }
+
+  const token = await getVideoProvider().createMeetingToken(call.roomName, {
+    userId: user.id,
+    username,
+    owner: call.startedBy === user.id || snippet.ownerId === user.id,
+  }, roomExpiry(call));
+
+  return { call: current, token };
+}
+
+export async function leaveCall(snippet: CodeSnippet, user: AuthUser) {
+  const call = await getActiveCall(snippet.id);
+  if (!call || !(await recordLeave(call.id, user.id, new Date()))) {
+    throw new HttpError(404, "You are not in an active call on this snippet");
+  }
+  return (await refreshCall(call.id)) ?? call;
+}
+
+/**
+ * Marks the call ended, closes every participant row and deletes the room.
+ * Returns null when the call had already ended.
+ */
+export async function endCall(call: SnippetCall) {
+  const [ended] = await db
+    .update(snippetCalls)
+    .set({ isActive: false, endedAt: new Date(), participantCount: 0, updatedAt: new Date() })
+    .where(and(eq(snippetCalls.id, call.id), eq(snippetCalls.isActive, true)))
+    .returning();
+  if (!ended) return null;
+
+  await db
+    .update(snippetCallParticipants)
+    .set({ leftAt: new Date(), updatedAt: new Date() })
+    .where(and(eq(snippetCallParticipants.callId, ended.id), isNull(snippetCallParticipants.leftAt)));
+
+  if (ended.provider) {
+    try {
+      const provider = getVideoProvider();
+      if (provider.name === ended.provider) {
+        await provider.deleteRoom(ended.roomName);
+      }
+    } catch (error) {
+      // The room still expires at the provider on its own.
+      console.error("Error deleting video room:", error);
+    }
+  }
+
+  publishToSnippet(ended.snippetId, { type: "call", event: "ended", call: ended });
+  return ended;
+}
+
+export async function endCallForUser(snippet: CodeSnippet, user: AuthUser) {
+  const call = await getActiveCall(snippet.id);
+  if (!call) {
+    throw new HttpError(404, "There is no active call on this snippet");
+  }
+  if (call.startedBy !== user.id && snippet.ownerId !== user.id) {
+    throw new HttpError(403, "Only the person who started the call or the snippet owner can end it");
+  }
+  return (await endCall(call)) ?? { ...call, isActive: false };
+}
+
+/** Applies a verified provider webhook. Returns false when no active call matches. */
+export async function applyVideoEvent(event: VideoEvent) {
+  const [call] = await db
+    .select()
+    .from(snippetCalls)
+    .where(and(eq(snippetCalls.roomName, event.roomName), eq(snippetCalls.isActive, true)))
+    .limit(1);
+  if (!call) return false;
+
+  switch (event.type) {
+    case "participant-joined":
+      await recordJoin(call.id, event.userId, event.username, event.at);
+      await refreshCall(call.id);
+      break;
+    case "participant-left":
+      await recordLeave(call.id, event.userId, event.at);
+      await refreshCall(call.id);
+      break;
+    case "meeting-ended":
+      await endCall(call);
+      break;
+  }
+  return true;
+}
+
+/**
+ * Ends calls that have been empty for the idle timeout, and calls whose room
+ * has expired at the provider. Returns how many were ended.
+ */
+export async function endIdleCalls(now = new Date()) {
+  const idle = await db
+    .select()
+    .from(snippetCalls)
+    .where(and(
+      eq(snippetCalls.isActive, true),
+      or(
+        and(eq(snippetCalls.participantCount, 0), lt(snippetCalls.lastActivityAt, new Date(now.getTime() - IDLE_TIMEOUT_MS))),
+        lt(snippetCalls.startedAt, new Date(now.getTime() - ROOM_TTL_MS)),
+      ),
+    ));
+
+  let ended = 0;
+  for (const call of idle) {
+    if (await endCall(call)) ended++;
+  }
+  return ended;
+}
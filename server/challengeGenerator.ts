@@ -0,0 +1,172 @@
+import { z } from "zod";
+import { db } from "./db";
+import { codingChallenges, type CodingChallenge, type GenerateChallengeRequest } from "@shared/schema";
+import { completeChat, startAIUsage, type ChatMessage, type TokenUsage } from "./ai";
+import { HttpError } from "./errors";
+import { getRunner } from "./executor";
+import { gradeSubmission, type ChallengeTestCase, type TestCaseResult } from "./grading";
+
+// Generation is retried with the failing test results when the model's own
+// reference solution does not pass its test suite.
+const MAX_ATTEMPTS = 3;
+
+const generatedChallengeSchema = z.object({
+  title: z.string().min(3).max(120),
+  description: z.string().min(20),
+  constraints: z.string().min(1),
+  hints: z.array(z.string().min(1)).min(2).max(5),
+  testCases: z.array(z.object({
+    input: z.string(),
+    expected: z.string(),
+    description: z.string().optional(),
+    hidden: z.boolean().optional(),
+  })).min(4).max(20),
+  referenceSolution: z.string().min(1),
+});
+
+type GeneratedChallenge = z.infer<typeof generatedChallengeSchema>;
+
+const DIFFICULTY_GUIDANCE: Record<GenerateChallengeRequest["difficulty"], string> = {
+  easy: "a single well-known technique, small inputs, no tricky edge cases beyond empty input",
+  medium: "a combination of two techniques or a classic data structure, with a few edge cases",
+  hard: "an efficient algorithm is required; naive solutions should be too slow for the largest inputs",
+};
+
+function buildPrompt(request: GenerateChallengeRequest): ChatMessage[] {
+  return [
+    {
+      role: "system",
+      content: [
+        "You write programming practice problems that are graded automatically.",
+        "A solution reads the whole test input from standard input and prints the answer to standard output.",
+        "Output is compared line by line after trimming trailing whitespace, so the expected output must be exact.",
+        "Respond with a single JSON object with these fields:",
+        '- "title": short problem title',
+        '- "description": the problem statement in Markdown, including the input and output format and one worked example',
+        '- "constraints": input size limits and value ranges',
+        '- "hints": 3 hints ordered from a gentle nudge to nearly the full approach',
+        '- "testCases": 6 to 10 objects with "input", "expected", "description" and "hidden"; mark about a third hidden, covering edge cases and the largest inputs',
+        '- "referenceSolution": a complete, correct solution program that passes every test case',
+      ].join("\n"),
+    },
+    {
+      role: "user",
+      content: [
+        `Difficulty: ${request.difficulty} (${DIFFICULTY_GUIDANCE[request.difficulty]}).`,
+        `Language for the reference solution: ${request.language}.`,
+        request.topic ? `Topic: ${request.topic}.` : "Pick any classic topic suitable for this difficulty.",
+      ].join("\n"),
+    },
+  ];
+}
+
+function describeFailures(results: TestCaseResult[]) {
+  return results
+    .filter((result) => !result.passed)
+    .slice(0, 5)
+    .map((result) => [
+      `Test ${result.index + 1} (${result.status}):`,
+      `input:\n${result.input}`,
+      `expected:\n${result.expected}`,
+      `actual:\n${result.actual}`,
+      result.stderr ? `stderr:\n${result.stderr.slice(0, 1000)}` : "",
+    ].filter(Boolean).join("\n"))
+    .join("\n\n");
+}
+
+function parseGenerated(content: string): GeneratedChallenge | string {
+  let json: unknown;
+  try {
+    // Some models wrap JSON in a fence even when asked not to.
+    json = JSON.parse(content.replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, ""));
+  } catch {
+    return "The response was not valid JSON.";
+  }
+  const parsed = generatedChallengeSchema.safeParse(json);
+  if (!parsed.success) {
+    return `The JSON did not match the required shape: ${parsed.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("; ")}`;
+  }
+  if (parsed.data.testCases.every((testCase) => testCase.hidden)) {
+    return "At least one test case must be visible (hidden: false).";
+  }
+  return parsed.data;
+}
+
+/**
+ * Asks the AI provider for a challenge and stores it only once its reference
+ * solution passes every generated test in the execution sandbox. Each failed
+ * attempt is fed back to the model before retrying.
+ */
+export async function generateChallenge(request: GenerateChallengeRequest, userId: string): Promise<CodingChallenge> {
+  if (!getRunner(request.language)) {
+    throw new HttpError(400, `Challenges cannot be generated for "${request.language}" because it cannot be executed`);
+  }
+
+  const { provider, finish } = await startAIUsage(userId, "challenge-generation", request.difficulty);
+  const messages = buildPrompt(request);
+  const usage: TokenUsage = { promptTokens: 0, completionTokens: 0 };
+  let lastProblem = "";
+
+  try {
+    for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+      const response = await completeChat(provider, messages, { json: true, temperature: 0.7, maxTokens: 6000 });
+      usage.promptTokens += response.usage.promptTokens;
+      usage.completionTokens += response.usage.completionTokens;
+      messages.push({ role: "assistant", content: response.content });
+
+      const generated = parseGenerated(response.content);
+      if (typeof generated === "string") {
+        lastProblem = generated;
+        messages.push({ role: "user", content: `${generated} Return the corrected JSON object.` });
+        continue;
+      }
+
+      const testCases: ChallengeTestCase[] = generated.testCases.map((testCase) => ({
+        input: testCase.input,
+        expected: testCase.expected,
+        description: testCase.description,
+        hidden: Boolean(testCase.hidden),
+      }));
+      // Graded with every case visible so failures can be reported back.
+      const grading = await gradeSubmission({
+        code: generated.referenceSolution,
+        language: request.language,
+        testCases: testCases.map((testCase) => ({ ...testCase, hidden: false })),
+      });
+
+      if (grading.passedCount === grading.totalCount) {
+        const [created] = await db
+          .insert(codingChallenges)
+          .values({
+            title: generated.title,
+            description: generated.description,
+            difficulty: request.difficulty,
+            language: request.language,
+            testCases,
+            hints: generated.hints,
+            constraints: generated.constraints,
+            createdBy: userId,
+          })
+          .returning();
+        await finish({ usage });
+        return created;
+      }
+
+      lastProblem = `The reference solution passed ${grading.passedCount} of ${grading.totalCount} tests.`;
+      messages.push({
+        role: "user",
+        content: `${lastProblem} Either the solution or the expected outputs are wrong:\n\n${describeFailures(grading.testResults)}\n\nReturn the corrected JSON object.`,
+      });
+    }
+  } catch (error) {
+    await finish({ usage, error });
+    throw error;
+  }
+
+  const error = new HttpError(422, "Could not generate a challenge whose reference solution passes its own tests", {
+    attempts: MAX_ATTEMPTS,
+    reason: lastProblem,
+  });
+  await finish({ usage, error });
+  throw error;
+}
@@ -0,0 +1,216 @@
+import { and, asc, count, desc, eq, isNull, ne, or, sql, type SQL } from "drizzle-orm";
+import { db } from "./db";
+import { snippetMessages, snippetReadMarkers, type SnippetMessage } from "@shared/schema";
+import { HttpError } from "./errors";
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 100;
+const MAX_MESSAGE_LENGTH = 10_000;
+
+/** Deleted messages stay in the timeline as tombstones without their content. */
+export function toPublicMessage(message: SnippetMessage) {
+  if (!message.deletedAt) return message;
+  return {
+    ...message,
+    content: null,
+    fileUrl: null,
+    fileName: null,
+    fileSize: null,
+    fileType: null,
+  };
+}
+
+// Compares (createdAt, id) against the row a cursor points at, in SQL, so the
+// database's microsecond timestamps are never rounded through a JS Date.
+function beyondCursor(cursorId: string, direction: "before" | "after"): SQL {
+  const cursor = sql`(select ${snippetMessages.createdAt}, ${snippetMessages.id} from ${snippetMessages} where ${snippetMessages.id} = ${cursorId})`;
+  return direction === "before"
+    ? sql`(${snippetMessages.createdAt}, ${snippetMessages.id}) < ${cursor}`
+    : sql`(${snippetMessages.createdAt}, ${snippetMessages.id}) > ${cursor}`;
+}
+
+/**
+ * Pages through a snippet's messages ordered by (createdAt, id). Without a
+ * cursor the newest page is returned; `before` and `after` take a message id.
+ * Messages in the page are always in chronological order, and `hasMore` says
+ * whether more exist in the direction being paged.
+ */
+export async function listMessages(snippetId: string, options: { before?: string; after?: string; limit?: number }) {
+  if (options.before && options.after) {
+    throw new HttpError(400, "Use either before or after, not both");
+  }
+  const cursorId = options.before ?? options.after;
+  if (cursorId) {
+    const [cursor] = await db
+      .select({ id: snippetMessages.id })
+      .from(snippetMessages)
+      .where(and(eq(snippetMessages.id, cursorId), eq(snippetMessages.snippetId, snippetId)))
+      .limit(1);
+    if (!cursor) {
+      throw new HttpError(400, "Unknown message cursor");
+    }
+  }
+
+  const limit = Math.min(Math.max(options.limit || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+  const forward = Boolean(options.after);
+  const rows = await db
+    .select()
+    .from(snippetMessages)
+    .where(and(
+      eq(snippetMessages.snippetId, snippetId),
+      cursorId ? beyondCursor(cursorId, forward ? "after" : "before") : undefined,
+    ))
+    .orderBy(...(forward
+      ? [asc(snippetMessages.createdAt), asc(snippetMessages.id)]
+      : [desc(snippetMessages.createdAt), desc(snippetMessages.id)]))
+    .limit(limit + 1);
+
+  const hasMore = rows.length > limit;
+  const page = rows.slice(0, limit);
+  if (!forward) page.reverse();
+
+  return {
+    messages: page.map(toPublicMessage),
+    hasMore,
+    // Pass as `before` to load older messages, or `after` to load newer ones.
+    oldestId: page[0]?.id ?? null,
+    newestId: page[page.length - 1]?.id ?? null,
+  };
+}
+
+async function loadOwnMessage(snippetId: string, messageId: string, userId: string) {
+  const [message] = await db
+    .select()
+    .from(snippetMessages)
+    .where(and(eq(snippetMessages.id, messageId), eq(snippetMessages.snippetId, snippetId)))
+    .limit(1);
+
+  if (!message || message.deletedAt) {
+    throw new HttpError(404, "Message not found");
+  }
+  if (message.userId !== userId) {
+    throw new HttpError(403, "Only the author can change this message");
+  }
+  return message;
+}
+
+export async function editMessage(snippetId: string, messageId: string, userId: string, content: unknown) {
+  if (typeof content !== "string" || content.trim() === "") {
+    throw new HttpError(400, "content cannot be empty");
+  }
+  if (content.length > MAX_MESSAGE_LENGTH) {
+    throw new HttpError(400, `Messages are limited to ${MAX_MESSAGE_LENGTH} characters`);
+  }
+
+  const message = await loadOwnMessage(snippetId, messageId, userId);
+  if (message.messageType !== "text") {
+    throw new HttpError(400, "Only text messages can be edited");
+  }
+
+  const [updated] = await db
+    .update(snippetMessages)
+    .set({ content, updatedAt: new Date() })
+    .where(and(eq(snippetMessages.id, message.id), isNull(snippetMessages.deletedAt)))
+    .returning();
+  if (!updated) {
+    throw new HttpError(404, "Message not found");
+  }
+  return updated;
+}
+
+export async function deleteMessage(snippetId: string, messageId: string, userId: string) {
+  const message = await loadOwnMessage(snippetId, messageId, userId);
+
+  const [deleted] = await db
+    .update(snippetMessages)
+    .set({ deletedAt: new Date(), updatedAt: new Date() })
+    .where(and(eq(snippetMessages.id, message.id), isNull(snippetMessages.deletedAt)))
+    .returning();
+  if (!deleted) {
+    throw new HttpError(404, "Message not found");
+  }
+  return toPublicMessage(deleted);
+}
+
+/**
+ * Moves the user's read marker to `messageId`. Markers only move forward, so
+ * a stale client cannot mark newer messages unread again.
+ */
+export async function markRead(snippetId: string, userId: string, messageId: string) {
+  const message = db
+    .select({
+      id: sql`gen_random_uuid()`.as("id"),
+      snippetId: snippetMessages.snippetId,
+      userId: sql`${userId}::uuid`.as("user_id"),
+      lastReadMessageId: sql`${snippetMessages.id}`.as("last_read_message_id"),
+      lastReadAt: sql`${snippetMessages.createdAt}`.as("last_read_at"),
+      updatedAt: sql`now()`.as("updated_at"),
+    })
+    .from(snippetMessages)
+    .where(and(eq(snippetMessages.id, messageId), eq(snippetMessages.snippetId, snippetId)));
+
+  const [marker] = await db
+    .insert(snippetReadMarkers)
+    .select(message)
+    .onConflictDoUpdate({
+      target: [snippetReadMarkers.snippetId, snippetReadMarkers.userId],
+      set: {
+        lastReadMessageId: sql`excluded.last_read_message_id`,
+        lastReadAt: sql`excluded.last_read_at`,
+        updatedAt: new Date(),
+      },
+      setWhere: sql`(excluded.last_read_at, excluded.last_read_message_id) > (${snippetReadMarkers.lastReadAt}, ${snippetReadMarkers.lastReadMessageId})`,
+    })
+    .returning();
+
+  if (marker) return marker;
+
+  // Nothing was written: either the message is unknown or the marker is already past it.
+  const [[current], [known]] = await Promise.all([
+    db
+      .select()
+      .from(snippetReadMarkers)
+      .where(and(eq(snippetReadMarkers.snippetId, snippetId), eq(snippetReadMarkers.userId, userId)))
+      .limit(1),
+    db
+      .select({ id: snippetMessages.id })
+      .from(snippetMessages)
+      .where(and(eq(snippetMessages.id, messageId), eq(snippetMessages.snippetId, snippetId)))
+      .limit(1),
+  ]);
+  if (!current || !known) {
+    throw new HttpError(404, "Message not found");
+  }
+  return current;
+}
+
+/** Everyone's read markers, plus how many messages the user has not read. */
+export async function getReadState(snippetId: string, userId: string) {
+  const markers = await db
+    .select()
+    .from(snippetReadMarkers)
+    .where(eq(snippetReadMarkers.snippetId, snippetId));
+  const own = markers.find((marker) => marker.userId === userId);
+
+  const [unread] = await db
+    .select({ value: count() })
+    .from(snippetMessages)
+    .where(and(
+      eq(snippetMessages.snippetId, snippetId),
+      isNull(snippetMessages.deletedAt),
+      or(isNull(snippetMessages.userId), ne(snippetMessages.userId, userId)),
+      own
+        ? sql`(${snippetMessages.createdAt}, ${snippetMessages.id}) > (select ${snippetReadMarkers.lastReadAt}, ${snippetReadMarkers.lastReadMessageId} from ${snippetReadMarkers} where ${snippetReadMarkers.id} = ${own.id})`
+        : undefined,
+    ));
+
+  return {
+    lastReadMessageId: own?.lastReadMessageId ?? null,
+    unreadCount: unread.value,
+    markers: markers.map(({ userId: markerUserId, lastReadMessageId, lastReadAt }) => ({
+      userId: markerUserId,
+      lastReadMessageId,
+      lastReadAt,
+    })),
+  };
+}
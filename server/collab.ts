@@ -0,0 +1,435 @@
+import { STATUS_CODES, type Server, type IncomingMessage } from "http";
+import type { Duplex } from "stream";
+import { WebSocketServer, WebSocket } from "ws";
+import { z } from "zod";
+import { nanoid } from "nanoid";
+import { and, eq } from "drizzle-orm";
+import { db } from "./db";
+import { codeSnippets, snippetCollaborators, type CodeSnippet } from "@shared/schema";
+import { applyOps, OperationError, textOpSchema, transform, type TextOp } from "./ot";
+import { resolveUsername, tokenFromRequest, verifyToken } from "./auth";
+import { assertSnippetAccess, loadSnippetByToken } from "./access";
+import { HttpError } from "./errors";
+import { recordRevision } from "./revisions";
+
+// Realtime editing protocol, one room per snippet at /ws/snippets/:shareToken.
+//
+// Query parameters: access_token (optional for unprotected snippets), unlock
+// (a passphrase unlock token), clientId + resumeKey from a previous connection
+// to resume it, username for anonymous clients, and epoch + revision from the
+// last state the client saw. If the epoch matches the live room the server
+// replays the operations the client missed; otherwise it sends a full snapshot.
+// Client ids are issued by the server; one is only resumed with its resumeKey,
+// by the same user.
+//
+// Client -> server:
+//   { type: "op", opId, revision, ops }      ops made against `revision`
+//   { type: "cursor", cursor }               caret/selection, any JSON shape
+//   { type: "typing", typing }               chat typing indicator
+// Server -> client:
+//   { type: "snapshot", clientId, resumeKey?, epoch, revision, content, clients }
+//   { type: "replay", clientId, resumeKey, epoch, revision, operations, clients }
+//   { type: "ack", opId, revision }
+//   { type: "op", revision, clientId, ops }
+//   { type: "cursor", clientId, userId, username, cursor }
+//   { type: "presence", event: "join" | "leave", client }
+//   { type: "typing", clientId, userId, username, typing }
+//   { type: "chat", event: "created" | "updated" | "deleted", message }
+//   { type: "read", userId, lastReadMessageId }
+//   { type: "call", event: "started" | "updated" | "ended", call }
+//   { type: "error", error, opId? }
+
+const WS_PATH = /^\/ws\/snippets\/([^/]+)\/?$/;
+const HISTORY_LIMIT = 1000;
+const MAX_DOCUMENT_LENGTH = 1_000_000;
+const PERSIST_INTERVAL_MS = 5_000;
+const HEARTBEAT_INTERVAL_MS = 30_000;
+
+interface HistoryEntry {
+  revision: number;
+  clientId: string;
+  opId: string;
+  ops: TextOp[];
+}
+
+interface Client {
+  socket: WebSocket;
+  clientId: string;
+  userId: string | null;
+  username: string;
+  canWrite: boolean;
+  cursor: unknown;
+  alive: boolean;
+}
+
+interface Room {
+  snippetId: string;
+  epoch: string;
+  content: string;
+  revision: number;
+  history: HistoryEntry[];
+  clients: Map<string, Client>;
+  // Issued client ids, kept past disconnects so a client can resume its id.
+  sessions: Map<string, { resumeKey: string; userId: string | null }>;
+  dirty: boolean;
+  lastEditorId: string | null;
+  pendingCursors: Map<string, Client>;
+}
+
+const clientMessageSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("op"),
+    opId: z.string().min(1).max(64),
+    revision: z.number().int().min(0),
+    ops: z.array(textOpSchema).min(1).max(500),
+  }),
+  z.object({
+    type: z.literal("cursor"),
+    cursor: z.unknown(),
+  }),
+  z.object({
+    type: z.literal("typing"),
+    typing: z.boolean(),
+  }),
+]);
+
+const rooms = new Map<string, Room>();
+
+function send(client: Client, message: unknown) {
+  if (client.socket.readyState === WebSocket.OPEN) {
+    client.socket.send(JSON.stringify(message));
+  }
+}
+
+function broadcast(room: Room, message: unknown, exceptClientId?: string) {
+  for (const client of room.clients.values()) {
+    if (client.clientId !== exceptClientId) send(client, message);
+  }
+}
+
+function presenceOf(client: Client) {
+  return {
+    clientId: client.clientId,
+    userId: client.userId,
+    username: client.username,
+    canWrite: client.canWrite,
+    cursor: client.cursor,
+  };
+}
+
+function getRoom(snippetId: string, content: string): Room {
+  let room = rooms.get(snippetId);
+  if (!room) {
+    room = {
+      snippetId,
+      epoch: nanoid(10),
+      content,
+      revision: 0,
+      history: [],
+      clients: new Map(),
+      sessions: new Map(),
+      dirty: false,
+      lastEditorId: null,
+      pendingCursors: new Map(),
+    };
+    rooms.set(snippetId, room);
+  }
+  return room;
+}
+
+async function persistRoom(room: Room) {
+  if (room.dirty) {
+    room.dirty = false;
+    try {
+      await db
+        .update(codeSnippets)
+        .set({ content: room.content, updatedAt: new Date() })
+        .where(eq(codeSnippets.id, room.snippetId));
+      await recordRevision(room.snippetId, { content: room.content, authorId: room.lastEditorId });
+    } catch (error) {
+      room.dirty = true;
+      console.error("Error persisting collaborative document:", error);
+    }
+  }
+
+  // Live presence is the room's client map. A collaborator row grants access,
+  // so cursors are only saved onto rows the owner created, never inserted.
+  const cursors = Array.from(room.pendingCursors);
+  room.pendingCursors.clear();
+  for (const [userId, client] of cursors) {
+    try {
+      await db
+        .update(snippetCollaborators)
+        .set({ cursorPosition: client.cursor, lastSeen: new Date() })
+        .where(and(eq(snippetCollaborators.snippetId, room.snippetId), eq(snippetCollaborators.userId, userId)));
+    } catch (error) {
+      console.error("Error persisting collaborator cursor:", error);
+    }
+  }
+}
+
+function handleOperation(room: Room, client: Client, message: { opId: string; revision: number; ops: TextOp[] }) {
+  if (!client.canWrite) {
+    return send(client, { type: "error", opId: message.opId, error: "You cannot edit this snippet" });
+  }
+
+  // A client that reconnects resends its unacknowledged operation; ack it again
+  // instead of applying it twice.
+  const duplicate = room.history.find((entry) => entry.clientId === client.clientId && entry.opId === message.opId);
+  if (duplicate) {
+    return send(client, { type: "ack", opId: message.opId, revision: duplicate.revision });
+  }
+
+  const oldestRevision = room.revision - room.history.length;
+  if (message.revision > room.revision || message.revision < oldestRevision) {
+    return send(client, { type: "error", opId: message.opId, error: "Revision out of range; resync required" });
+  }
+
+  const concurrent = room.history.slice(message.revision - oldestRevision).flatMap((entry) => entry.ops);
+  const [ops] = transform(message.ops, concurrent);
+
+  let content: string;
+  try {
+    content = applyOps(room.content, ops);
+  } catch (error) {
+    if (error instanceof OperationError) {
+      return send(client, { type: "error", opId: message.opId, error: error.message });
+    }
+    throw error;
+  }
+  if (content.length > MAX_DOCUMENT_LENGTH) {
+    return send(client, { type: "error", opId: message.opId, error: "Document size limit exceeded" });
+  }
+
+  room.content = content;
+  room.revision += 1;
+  room.dirty = true;
+  room.lastEditorId = client.userId;
+  room.history.push({ revision: room.revision, clientId: client.clientId, opId: message.opId, ops });
+  if (room.history.length > HISTORY_LIMIT) {
+    room.history.splice(0, room.history.length - HISTORY_LIMIT);
+  }
+
+  send(client, { type: "ack", opId: message.opId, revision: room.revision });
+  broadcast(room, { type: "op", revision: room.revision, clientId: client.clientId, ops }, client.clientId);
+}
+
+function handleMessage(room: Room, client: Client, raw: string) {
+  let message: z.infer<typeof clientMessageSchema>;
+  try {
+    message = clientMessageSchema.parse(JSON.parse(raw));
+  } catch {
+    return send(client, { type: "error", error: "Invalid message" });
+  }
+
+  if (message.type === "op") {
+    handleOperation(room, client, message);
+  } else if (message.type === "typing") {
+    // Relayed only; clients expire an indicator that is not refreshed.
+    const { clientId, userId, username } = client;
+    broadcast(room, { type: "typing", clientId, userId, username, typing: message.typing }, clientId);
+  } else {
+    client.cursor = message.cursor ?? null;
+    if (client.userId) room.pendingCursors.set(client.userId, client);
+    broadcast(room, { type: "cursor", ...presenceOf(client) }, client.clientId);
+  }
+}
+
+/**
+ * The client id for a new connection: the requested one when the resume key
+ * and user match the session that was issued it, otherwise a fresh one.
+ */
+function resumeSession(room: Room, clientId: string | null, resumeKey: string | null, userId: string | null) {
+  const session = clientId ? room.sessions.get(clientId) : undefined;
+  if (clientId && session && resumeKey && session.resumeKey === resumeKey && session.userId === userId) {
+    return clientId;
+  }
+
+  // Sessions that are neither connected nor in the history have nothing to resume.
+  if (room.sessions.size > HISTORY_LIMIT) {
+    const inHistory = new Set(room.history.map((entry) => entry.clientId));
+    for (const id of room.sessions.keys()) {
+      if (!room.clients.has(id) && !inHistory.has(id)) room.sessions.delete(id);
+    }
+  }
+  const issued = nanoid(12);
+  room.sessions.set(issued, { resumeKey: nanoid(24), userId });
+  return issued;
+}
+
+function handleConnection(
+  socket: WebSocket,
+  request: IncomingMessage,
+  snippet: CodeSnippet,
+  identity: { userId: string | null; username: string; canWrite: boolean },
+) {
+  const url = new URL(request.url ?? "/", "http://localhost");
+  const snippetId = snippet.id;
+  const room = getRoom(snippetId, snippet.content ?? "");
+
+  const clientId = resumeSession(room, url.searchParams.get("clientId"), url.searchParams.get("resumeKey"), identity.userId);
+  const { resumeKey } = room.sessions.get(clientId)!;
+  const client: Client = {
+    socket,
+    clientId,
+    ...identity,
+    cursor: null,
+    alive: true,
+  };
+
+  // A resumed session replaces its stale socket.
+  const previous = room.clients.get(clientId);
+  if (previous) {
+    previous.socket.removeAllListeners("close");
+    previous.socket.terminate();
+  }
+  room.clients.set(clientId, client);
+
+  const others = Array.from(room.clients.values()).filter((other) => other.clientId !== clientId).map(presenceOf);
+  const lastRevision = Number(url.searchParams.get("revision"));
+  const oldestRevision = room.revision - room.history.length;
+  const canReplay = url.searchParams.get("epoch") === room.epoch
+    && Number.isInteger(lastRevision)
+    && lastRevision >= oldestRevision
+    && lastRevision <= room.revision;
+
+  if (canReplay) {
+    send(client, {
+      type: "replay",
+      clientId,
+      resumeKey,
+      epoch: room.epoch,
+      revision: room.revision,
+      operations: room.history.slice(lastRevision - oldestRevision),
+      clients: others,
+    });
+  } else {
+    send(client, { type: "snapshot", clientId, resumeKey, epoch: room.epoch, revision: room.revision, content: room.content, clients: others });
+  }
+  if (!previous) {
+    broadcast(room, { type: "presence", event: "join", client: presenceOf(client) }, clientId);
+  }
+
+  socket.on("pong", () => {
+    client.alive = true;
+  });
+  socket.on("message", (data) => handleMessage(room, client, data.toString()));
+  socket.on("close", async () => {
+    if (room.clients.get(clientId) !== client) return;
+    room.clients.delete(clientId);
+    broadcast(room, { type: "presence", event: "leave", client: presenceOf(client) });
+    if (room.clients.size === 0) {
+      await persistRoom(room);
+      // Someone may have joined while the final save was in flight.
+      if (room.clients.size === 0) rooms.delete(snippetId);
+    }
+  });
+}
+
+/**
+ * Replaces the live document after a change made outside the session, such as
+ * a REST update or a revision restore. Clients receive a fresh snapshot.
+ */
+export function replaceDocument(snippetId: string, content: string) {
+  const room = rooms.get(snippetId);
+  if (!room) return;
+
+  room.epoch = nanoid(10);
+  room.content = content;
+  room.revision = 0;
+  room.history = [];
+  room.dirty = false;
+  for (const client of room.clients.values()) {
+    const others = Array.from(room.clients.values()).filter((other) => other !== client).map(presenceOf);
+    send(client, {
+      type: "snapshot",
+      clientId: client.clientId,
+      epoch: room.epoch,
+      revision: room.revision,
+      content,
+      clients: others,
+    });
+  }
+}
+
+/** Sends a message to everyone connected to a snippet, such as a chat event. */
+export function publishToSnippet(snippetId: string, message: unknown) {
+  const room = rooms.get(snippetId);
+  if (room) broadcast(room, message);
+}
+
+/** Disconnects everyone from a deleted snippet without saving the document. */
+export function closeDocument(snippetId: string, reason: string) {
+  const room = rooms.get(snippetId);
+  if (!room) return;
+
+  rooms.delete(snippetId);
+  for (const client of room.clients.values()) {
+    send(client, { type: "error", error: reason });
+    client.socket.close(4410, reason);
+  }
+  room.clients.clear();
+}
+
+function reject(socket: Duplex, status: number) {
+  socket.write(`HTTP/1.1 ${status} ${STATUS_CODES[status]}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+}
+
+export function attachCollaborationServer(server: Server) {
+  const wss = new WebSocketServer({ noServer: true, maxPayload: 2 * 1024 * 1024 });
+
+  server.on("upgrade", async (request, socket, head) => {
+    const url = new URL(request.url ?? "/", "http://localhost");
+    const match = url.pathname.match(WS_PATH);
+    if (!match) return;
+
+    try {
+      const token = tokenFromRequest(request);
+      const user = token ? verifyToken(token) : undefined;
+      const snippet = await loadSnippetByToken(decodeURIComponent(match[1]), user, "read", url.searchParams.get("unlock"));
+      const canWrite = await assertSnippetAccess(snippet, user, "write").then(() => true, () => false);
+      const identity = {
+        userId: user?.id ?? null,
+        username: user ? await resolveUsername(user) : url.searchParams.get("username") || "Anonymous",
+        canWrite,
+      };
+
+      wss.handleUpgrade(request, socket, head, (ws) => {
+        handleConnection(ws, request, snippet, identity);
+      });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return reject(socket, error.status);
+      }
+      console.error("Error upgrading collaboration socket:", error);
+      reject(socket, 500);
+    }
+  });
+
+  const persistTimer = setInterval(() => {
+    for (const room of rooms.values()) {
+      void persistRoom(room);
+    }
+  }, PERSIST_INTERVAL_MS);
+
+  const heartbeatTimer = setInterval(() => {
+    for (const room of rooms.values()) {
+      for (const client of room.clients.values()) {
+        if (!client.alive) {
+          client.socket.terminate();
+          continue;
+        }
+        client.alive = false;
+        client.socket.ping();
+      }
+    }
+  }, HEARTBEAT_INTERVAL_MS);
+
+  wss.on("close", () => {
+    clearInterval(persistTimer);
+    clearInterval(heartbeatTimer);
+  });
+
+  return wss;
+}
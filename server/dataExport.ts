@@ -0,0 +1,104 @@
+import { and, asc, eq, inArray, isNull } from "drizzle-orm";
+import { db } from "./db";
+import {
+  challengeSubmissions,
+  codeSnippets,
+  codingChallenges,
+  profiles,
+  projectFiles,
+  projects,
+  snippetMessages,
+  snippetTags,
+  tags,
+  userChallengeHistory,
+  userPracticeStats,
+} from "@shared/schema";
+import type { AuthUser } from "./auth";
+
+const EXPORT_VERSION = 1;
+
+/**
+ * Everything the user has created, as one JSON document, for backups and
+ * data-portability requests. Messages are the ones they wrote, wherever they
+ * wrote them. Project secrets and passphrase hashes are left out; neither is
+ * the user's content, and secrets are only readable through the app.
+ */
+export async function exportUserData(user: AuthUser) {
+  const [[profile], snippets, ownedProjects, messages, submissions, [stats], history] = await Promise.all([
+    db
+      .select({
+        username: profiles.username,
+        avatarUrl: profiles.avatarUrl,
+        email: profiles.email,
+        emailVerifiedAt: profiles.emailVerifiedAt,
+        createdAt: profiles.createdAt,
+      })
+      .from(profiles)
+      .where(eq(profiles.id, user.id)),
+    db.select().from(codeSnippets).where(eq(codeSnippets.ownerId, user.id)).orderBy(asc(codeSnippets.createdAt)),
+    db.select().from(projects).where(eq(projects.ownerId, user.id)).orderBy(asc(projects.createdAt)),
+    db
+      .select()
+      .from(snippetMessages)
+      .where(and(eq(snippetMessages.userId, user.id), isNull(snippetMessages.deletedAt)))
+      .orderBy(asc(snippetMessages.createdAt)),
+    db
+      .select({ submission: challengeSubmissions, challengeTitle: codingChallenges.title })
+      .from(challengeSubmissions)
+      .innerJoin(codingChallenges, eq(codingChallenges.id, challengeSubmissions.challengeId))
+      .where(eq(challengeSubmissions.userId, user.id))
+      .orderBy(asc(challengeSubmissions.submittedAt)),
+    db.select().from(userPracticeStats).where(eq(userPracticeStats.userId, user.id)),
+    db.select().from(userChallengeHistory).where(eq(userChallengeHistory.userId, user.id)),
+  ]);
+
+  const snippetIds = snippets.map((snippet) => snippet.id);
+  const projectIds = ownedProjects.map((project) => project.id);
+  const [tagRows, files] = await Promise.all([
+    snippetIds.length
+      ? db
+        .select({ snippetId: snippetTags.snippetId, name: tags.name })
+        .from(snippetTags)
+        .innerJoin(tags, eq(tags.id, snippetTags.tagId))
+        .where(inArray(snippetTags.snippetId, snippetIds))
+      : [],
+    projectIds.length
+      ? db
+        .select({
+          projectId: projectFiles.projectId,
+          path: projectFiles.path,
+          type: projectFiles.type,
+          language: projectFiles.language,
+          content: projectFiles.content,
+          updatedAt: projectFiles.updatedAt,
+        })
+        .from(projectFiles)
+        .where(inArray(projectFiles.projectId, projectIds))
+        .orderBy(asc(projectFiles.path))
+      : [],
+  ]);
+
+  const tagsBySnippet = new Map<string, string[]>();
+  for (const row of tagRows) {
+    tagsBySnippet.set(row.snippetId, [...(tagsBySnippet.get(row.snippetId) ?? []), row.name]);
+  }
+  const filesByProject = new Map<string, Omit<(typeof files)[number], "projectId">[]>();
+  for (const { projectId, ...file } of files) {
+    filesByProject.set(projectId, [...(filesByProject.get(projectId) ?? []), file]);
+  }
+
+  return {
+    version: EXPORT_VERSION,
+    exportedAt: new Date(),
+    account: {
+      id: user.id,
+      ...profile,
+      email: profile?.email ?? user.email ?? null,
+    },
+    snippets: snippets.map((snippet) => ({ ...snippet, tags: tagsBySnippet.get(snippet.id) ?? [] })),
+    projects: ownedProjects.map((project) => ({ ...project, files: filesByProject.get(project.id) ?? [] })),
+    messages,
+    submissions: submissions.map(({ submission, challengeTitle }) => ({ ...submission, challengeTitle })),
+    practice: { stats: stats ?? null, challenges: history },
+  };
+}
@@ -0,0 +1,226 @@
+import { readFileSync } from "fs";
+import { fileURLToPath } from "url";
+import { and, eq } from "drizzle-orm";
+import hljs from "highlight.js";
+import { db } from "./db";
+import { codeSnippets, profiles, type CodeSnippet, type EmbedQuery } from "@shared/schema";
+import { APP_URL } from "./accounts";
+import { HttpError } from "./errors";
+import { isListed } from "./gallery";
+import { normalizeLanguage } from "./languages";
+
+const DEFAULT_EMBED_WIDTH = 720;
+const LINE_HEIGHT_PX = 20;
+// Title bar and footer around the code.
+const CHROME_HEIGHT_PX = 72;
+const MAX_EMBED_HEIGHT = 600;
+// Short, so a snippet that stops being public soon stops being served from caches too.
+export const EMBED_CACHE_CONTROL = "public, max-age=60";
+
+// Our language names that highlight.js knows under another name.
+const HIGHLIGHT_LANGUAGES: Record<string, string> = {
+  shell: "bash",
+  vue: "xml",
+};
+
+const THEME_FILES = {
+  light: "highlight.js/styles/github.css",
+  dark: "highlight.js/styles/github-dark.css",
+};
+const themeCss = new Map<string, string>();
+
+function loadThemeCss(theme: keyof typeof THEME_FILES) {
+  let css = themeCss.get(theme);
+  if (!css) {
+    css = readFileSync(fileURLToPath(import.meta.resolve(THEME_FILES[theme])), "utf8");
+    themeCss.set(theme, css);
+  }
+  return css;
+}
+
+const LAYOUT_CSS = `
+body { margin: 0; font: 13px/1.5 -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; }
+.embed { border: 1px solid rgba(128, 128, 128, 0.35); border-radius: 6px; overflow: hidden; }
+.embed header, .embed footer { display: flex; gap: 8px; align-items: center; padding: 6px 12px; opacity: 0.85; }
+.embed header a { font-weight: 600; color: inherit; text-decoration: none; }
+.embed footer { justify-content: flex-end; font-size: 12px; }
+.embed footer a { color: inherit; }
+.embed .language { margin-left: auto; font-size: 12px; }
+.embed .code { overflow: auto; padding: 8px 0; }
+table { border-collapse: collapse; font: 12px/${LINE_HEIGHT_PX}px ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; }
+td { padding: 0 12px; white-space: pre; vertical-align: top; }
+td.line-number { text-align: right; user-select: none; opacity: 0.5; padding-right: 8px; }
+`;
+
+/**
+ * Embeds, oEmbed and raw views never take a session or an unlock token, so
+ * only snippets the gallery would show can be rendered. Anything else is
+ * reported as missing, without saying whether it exists.
+ */
+export async function loadEmbeddableSnippet(shareToken: string) {
+  const [snippet] = await db
+    .select()
+    .from(codeSnippets)
+    .where(and(eq(codeSnippets.shareToken, shareToken), isListed()))
+    .limit(1);
+  if (!snippet) {
+    throw new HttpError(404, "Snippet not found");
+  }
+  return snippet;
+}
+
+export function snippetPageUrl(shareToken: string) {
+  return `${APP_URL}/snippet/${encodeURIComponent(shareToken)}`;
+}
+
+function embedUrl(shareToken: string, options: EmbedQuery) {
+  const query = new URLSearchParams(Object.entries(options).filter(([, value]) => value !== undefined));
+  const suffix = query.toString() ? `?${query}` : "";
+  return `${APP_URL}/api/snippets/${encodeURIComponent(shareToken)}/embed${suffix}`;
+}
+
+/** Validators change whenever the snippet does; options are part of the URL. */
+export function snippetEtag(snippet: CodeSnippet) {
+  return `"${snippet.id}-${snippet.updatedAt.getTime().toString(36)}"`;
+}
+
+/** The 1-based, inclusive range of lines to show; the whole snippet by default. */
+function lineRange(lines: string | undefined, total: number) {
+  if (!lines) return { start: 1, end: total };
+  const [start, end = start] = lines.split("-").map(Number);
+  if (start < 1 || end < start) {
+    throw new HttpError(400, "lines must be a range like 12-20 starting at 1");
+  }
+  if (start > total) {
+    throw new HttpError(400, `The snippet has ${total} lines`);
+  }
+  return { start, end: Math.min(end, total) };
+}
+
+function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/*
+ * Highlights the whole snippet, so constructs spanning lines (block comments,
+ * template strings) are coloured correctly, then splits the markup into lines,
+ * closing spans at each line end and reopening them on the next line.
+ */
+function highlightLines(content: string, language: string | null) {
+  const name = language ? HIGHLIGHT_LANGUAGES[language] ?? language : null;
+  const html = name && hljs.getLanguage(name)
+    ? hljs.highlight(content, { language: name, ignoreIllegals: true }).value
+    : escapeHtml(content);
+
+  const lines: string[] = [];
+  const open: string[] = [];
+  let line = "";
+  for (const token of html.split(/(<span[^>]*>|<\/span>|\n)/)) {
+    if (token === "\n") {
+      lines.push(line + "</span>".repeat(open.length));
+      line = open.join("");
+    } else if (token.startsWith("<span")) {
+      open.push(token);
+      line += token;
+    } else if (token === "</span>") {
+      open.pop();
+      line += token;
+    } else {
+      line += token;
+    }
+  }
+  lines.push(line);
+  return lines;
+}
+
+/** A standalone HTML page showing the snippet, for use in an iframe. */
+export function renderEmbed(snippet: CodeSnippet, options: EmbedQuery) {
+  const theme = options.theme ?? "light";
+  const showLineNumbers = options.lineNumbers !== "false";
+  const language = normalizeLanguage(snippet.language);
+  const lines = highlightLines(snippet.content ?? "", language);
+  const { start, end } = lineRange(options.lines, lines.length);
+
+  const rows = lines
+    .slice(start - 1, end)
+    .map((line, index) => {
+      const number = showLineNumbers ? `<td class="line-number">${start + index}</td>` : "";
+      return `<tr>${number}<td>${line || " "}</td></tr>`;
+    })
+    .join("");
+  const title = escapeHtml(snippet.title);
+  const range = options.lines ? ` <span>lines ${start}–${end}</span>` : "";
+  const pageUrl = escapeHtml(snippetPageUrl(snippet.shareToken));
+  const rawUrl = escapeHtml(`${APP_URL}/api/snippets/${encodeURIComponent(snippet.shareToken)}/raw`);
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="robots" content="noindex">
+<title>${title}</title>
+<base target="_blank">
+<style>${loadThemeCss(theme)}${LAYOUT_CSS}</style>
+</head>
+<body>
+<div class="embed hljs">
+<header><a href="${pageUrl}">${title}</a>${range}<span class="language">${escapeHtml(language ?? "plaintext")}</span></header>
+<div class="code"><table>${rows}</table></div>
+<footer><a href="${rawUrl}">raw</a><a href="${pageUrl}">View on Coderfile</a></footer>
+</div>
+</body>
+</html>
+`;
+}
+
+/** Extracts the share token from a snippet page or embed URL on this site, if it is one. */
+function shareTokenFromUrl(url: string) {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+  if (parsed.origin !== new URL(APP_URL).origin) return null;
+  const match = parsed.pathname.match(/^\/(?:snippet\/([\w-]+)|api\/snippets\/([\w-]+)\/embed)\/?$/);
+  return match ? match[1] ?? match[2] : null;
+}
+
+/** An oEmbed "rich" response whose HTML is an iframe of the embed view. */
+export async function getOEmbed(url: string, options: EmbedQuery & { maxwidth?: number; maxheight?: number }) {
+  const shareToken = shareTokenFromUrl(url);
+  if (!shareToken) {
+    throw new HttpError(404, "No embeddable snippet at this URL");
+  }
+  const snippet = await loadEmbeddableSnippet(shareToken);
+  const { maxwidth, maxheight, ...embedOptions } = options;
+
+  const total = (snippet.content ?? "").split("\n").length;
+  const { start, end } = lineRange(embedOptions.lines, total);
+  const width = Math.min(DEFAULT_EMBED_WIDTH, maxwidth ?? DEFAULT_EMBED_WIDTH);
+  const height = Math.min((end - start + 1) * LINE_HEIGHT_PX + CHROME_HEIGHT_PX, MAX_EMBED_HEIGHT, maxheight ?? MAX_EMBED_HEIGHT);
+
+  const [author] = snippet.ownerId
+    ? await db.select({ username: profiles.username }).from(profiles).where(eq(profiles.id, snippet.ownerId)).limit(1)
+    : [];
+  const src = escapeHtml(embedUrl(shareToken, embedOptions));
+
+  return {
+    version: "1.0",
+    type: "rich",
+    provider_name: "Coderfile",
+    provider_url: APP_URL,
+    title: snippet.title,
+    ...(author?.username ? { author_name: author.username } : {}),
+    cache_age: 60,
+    width,
+    height,
+    html: `<iframe src="${src}" width="${width}" height="${height}" title="${escapeHtml(snippet.title)}" style="border:0" loading="lazy" sandbox="allow-popups allow-popups-to-escape-sandbox"></iframe>`,
+  };
+}
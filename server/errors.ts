@@ -0,0 +1,10 @@
+export class HttpError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+    public details?: Record<string, unknown>,
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
@@ -0,0 +1,418 @@
+import { spawn } from "child_process";
+import { chown, mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { fileURLToPath } from "url";
+import { HttpError } from "./errors";
+
+export interface ExecutionLimits {
+  timeoutMs: number;
+  cpuSeconds: number;
+  memoryMb: number;
+  maxOutputBytes: number;
+}
+
+export const DEFAULT_LIMITS: ExecutionLimits = {
+  timeoutMs: 5_000,
+  cpuSeconds: 5,
+  memoryMb: 256,
+  maxOutputBytes: 256 * 1024,
+};
+
+// Upper bounds for caller-supplied limits; requests asking for more are clamped.
+export const MAX_LIMITS: ExecutionLimits = {
+  timeoutMs: 30_000,
+  cpuSeconds: 20,
+  memoryMb: 1024,
+  maxOutputBytes: 2 * 1024 * 1024,
+};
+
+export type ExecutionStatus =
+  | "success"
+  | "runtime_error"
+  | "timeout"
+  | "cpu_limit"
+  | "memory_limit"
+  | "output_limit";
+
+export interface ExecutionResult {
+  status: ExecutionStatus;
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  signal: string | null;
+  executionTime: number;
+  error: string | null;
+}
+
+export interface ExecutionRequest {
+  code: string;
+  language: string;
+  stdin?: string;
+  env?: Record<string, string>;
+  limits?: Partial<ExecutionLimits>;
+}
+
+export interface LanguageRunner {
+  language: string;
+  aliases: string[];
+  fileName: string;
+  // When false the runtime manages its own heap and RLIMIT_AS is not applied,
+  // since V8 reserves far more address space than it ever commits.
+  limitAddressSpace: boolean;
+  // Host paths the runtime needs beyond /usr, /bin and /lib, mounted read-only.
+  mounts(): string[];
+  command(file: string, limits: ExecutionLimits): { command: string; args: string[] };
+  isOutOfMemory(stderr: string): boolean;
+}
+
+export class ExecutionError extends Error {
+  constructor(
+    public code: "unsupported_language" | "invalid_request",
+    message: string,
+  ) {
+    super(message);
+    this.name = "ExecutionError";
+  }
+}
+
+const runners = new Map<string, LanguageRunner>();
+
+export function registerRunner(runner: LanguageRunner) {
+  for (const key of [runner.language, ...runner.aliases]) {
+    runners.set(key.toLowerCase(), runner);
+  }
+}
+
+export function getRunner(language: string): LanguageRunner | undefined {
+  return runners.get(language.trim().toLowerCase());
+}
+
+export function supportedLanguages(): string[] {
+  return Array.from(new Set(Array.from(runners.values(), (runner) => runner.language)));
+}
+
+// The install prefix of this Node binary, e.g. /usr/local for /usr/local/bin/node.
+const nodePrefix = () => path.dirname(path.dirname(process.execPath));
+
+const nodeOutOfMemory = (stderr: string) =>
+  /heap out of memory|Allocation failed|RangeError: Array buffer allocation failed/i.test(stderr);
+
+registerRunner({
+  language: "javascript",
+  aliases: ["js", "node", "nodejs"],
+  fileName: "main.mjs",
+  limitAddressSpace: false,
+  mounts: () => [nodePrefix()],
+  command: (file, limits) => ({
+    command: process.execPath,
+    args: [`--max-old-space-size=${limits.memoryMb}`, file],
+  }),
+  isOutOfMemory: nodeOutOfMemory,
+});
+
+registerRunner({
+  language: "typescript",
+  aliases: ["ts"],
+  fileName: "main.mts",
+  limitAddressSpace: false,
+  // tsx and its dependencies are loaded from our node_modules.
+  mounts: () => {
+    const tsx = fileURLToPath(import.meta.resolve("tsx"));
+    return [nodePrefix(), tsx.slice(0, tsx.lastIndexOf(`${path.sep}node_modules${path.sep}`) + "/node_modules".length)];
+  },
+  command: (file, limits) => ({
+    command: process.execPath,
+    args: [`--max-old-space-size=${limits.memoryMb}`, "--import", import.meta.resolve("tsx"), file],
+  }),
+  isOutOfMemory: nodeOutOfMemory,
+});
+
+registerRunner({
+  language: "python",
+  aliases: ["py", "python3"],
+  fileName: "main.py",
+  limitAddressSpace: true,
+  mounts: () => (path.isAbsolute(process.env.PYTHON_BIN ?? "") ? [path.dirname(path.dirname(process.env.PYTHON_BIN!))] : []),
+  command: (file) => ({
+    command: process.env.PYTHON_BIN || "python3",
+    args: ["-I", "-B", file],
+  }),
+  isOutOfMemory: (stderr) => /\bMemoryError\b/.test(stderr),
+});
+
+const MAX_CONCURRENT_EXECUTIONS = Number(process.env.MAX_CONCURRENT_EXECUTIONS) || 2;
+// Each slot runs its job as its own uid, SANDBOX_UID_BASE + slot number.
+const SANDBOX_UID_BASE = Number(process.env.SANDBOX_UID_BASE) || 61000;
+const BWRAP_BIN = process.env.BWRAP_BIN || "bwrap";
+// Where the job's working directory appears inside the sandbox.
+const SANDBOX_DIR = "/sandbox";
+
+const freeSlots = Array.from({ length: MAX_CONCURRENT_EXECUTIONS }, (_, slot) => slot);
+const waiting: Array<(slot: number) => void> = [];
+
+async function acquireSlot() {
+  const slot = freeSlots.shift();
+  if (slot !== undefined) return slot;
+  return new Promise<number>((resolve) => waiting.push(resolve));
+}
+
+function releaseSlot(slot: number) {
+  const next = waiting.shift();
+  if (next) {
+    next(slot);
+  } else {
+    freeSlots.push(slot);
+  }
+}
+
+// Per user: runs in flight at once, and runs started in a rolling minute. A
+// challenge submission counts as one run however many test cases it has.
+const MAX_ACTIVE_RUNS_PER_USER = Number(process.env.MAX_ACTIVE_RUNS_PER_USER) || 1;
+const RUNS_PER_MINUTE = Number(process.env.RUNS_PER_MINUTE) || 20;
+const RUN_WINDOW_MS = 60 * 1000;
+
+const activeRuns = new Map<string, number>();
+const recentRuns = new Map<string, number[]>();
+
+/**
+ * Reserves a run against the user's quota, or throws a 429. Call the returned
+ * function once the run is over.
+ */
+export function reserveRun(userId: string) {
+  const now = Date.now();
+  // Forget users whose last run has left the window, so the map stays small.
+  for (const [id, starts] of recentRuns) {
+    if (starts[starts.length - 1] <= now - RUN_WINDOW_MS) recentRuns.delete(id);
+  }
+
+  const active = activeRuns.get(userId) ?? 0;
+  if (active >= MAX_ACTIVE_RUNS_PER_USER) {
+    throw new HttpError(429, "You already have code running; wait for it to finish", { retryAfter: 1 });
+  }
+  const starts = (recentRuns.get(userId) ?? []).filter((at) => at > now - RUN_WINDOW_MS);
+  if (starts.length >= RUNS_PER_MINUTE) {
+    const retryAfter = Math.max(1, Math.ceil((starts[0] + RUN_WINDOW_MS - now) / 1000));
+    throw new HttpError(429, `Code runs are limited to ${RUNS_PER_MINUTE} per minute`, { retryAfter });
+  }
+
+  recentRuns.set(userId, [...starts, now]);
+  activeRuns.set(userId, active + 1);
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    const remaining = (activeRuns.get(userId) ?? 1) - 1;
+    if (remaining > 0) activeRuns.set(userId, remaining);
+    else activeRuns.delete(userId);
+  };
+}
+
+export function resolveLimits(requested: Partial<ExecutionLimits> = {}): ExecutionLimits {
+  const limits = { ...DEFAULT_LIMITS };
+  for (const key of Object.keys(DEFAULT_LIMITS) as Array<keyof ExecutionLimits>) {
+    const value = requested[key];
+    if (typeof value === "number" && Number.isFinite(value) && value > 0) {
+      limits[key] = Math.min(Math.floor(value), MAX_LIMITS[key]);
+    }
+  }
+  return limits;
+}
+
+export async function executeCode(request: ExecutionRequest): Promise<ExecutionResult> {
+  if (typeof request.code !== "string") {
+    throw new ExecutionError("invalid_request", "code must be a string");
+  }
+  const runner = getRunner(request.language ?? "");
+  if (!runner) {
+    throw new ExecutionError(
+      "unsupported_language",
+      `Unsupported language "${request.language}". Supported: ${supportedLanguages().join(", ")}`,
+    );
+  }
+
+  const limits = resolveLimits(request.limits);
+
+  const slot = await acquireSlot();
+  const uid = SANDBOX_UID_BASE + slot;
+  // A fresh directory per run, removed afterwards, so nothing carries over between jobs.
+  const workDir = await mkdtemp(path.join(tmpdir(), "coderfile-run-"));
+  try {
+    const file = path.join(workDir, runner.fileName);
+    await writeFile(file, request.code, "utf8");
+    if (runsAsRoot()) {
+      await chown(workDir, uid, uid);
+      await chown(file, uid, uid);
+    }
+    return await runProcess(runner, workDir, uid, limits, request.stdin ?? "", request.env ?? {});
+  } finally {
+    await rm(workDir, { recursive: true, force: true }).catch(() => {});
+    releaseSlot(slot);
+  }
+}
+
+function runsAsRoot() {
+  return process.getuid?.() === 0;
+}
+
+/*
+ * Every run gets its own bubblewrap sandbox: new user, PID, network, IPC and
+ * UTS namespaces, a /proc that only shows the run's own processes, an empty
+ * /tmp, and read-only system directories. Only the working directory is
+ * writable. There is no network, and neither the server's environment nor
+ * other runs are visible. When the server runs as root, bwrap itself is
+ * started as the slot's unprivileged uid, so the job has no host privileges
+ * either; runtime paths (see LanguageRunner.mounts) must be readable by it.
+ */
+function sandboxArgs(runner: LanguageRunner, workDir: string, uid: number) {
+  const args = [
+    "--unshare-all",
+    "--unshare-user",
+    "--uid", String(uid),
+    "--gid", String(uid),
+    "--die-with-parent",
+    "--new-session",
+    "--cap-drop", "ALL",
+    "--ro-bind", "/usr", "/usr",
+    "--ro-bind-try", "/bin", "/bin",
+    "--ro-bind-try", "/lib", "/lib",
+    "--ro-bind-try", "/lib64", "/lib64",
+    "--ro-bind-try", "/etc/alternatives", "/etc/alternatives",
+    "--ro-bind-try", "/etc/ld.so.cache", "/etc/ld.so.cache",
+    "--proc", "/proc",
+    "--dev", "/dev",
+    "--tmpfs", "/tmp",
+  ];
+  for (const mount of runner.mounts()) {
+    // A runtime installed straight under / would otherwise expose the whole host.
+    if (path.resolve(mount) === "/") continue;
+    args.push("--ro-bind", mount, mount);
+  }
+  args.push("--bind", workDir, SANDBOX_DIR, "--chdir", SANDBOX_DIR);
+  return args;
+}
+
+function runProcess(
+  runner: LanguageRunner,
+  workDir: string,
+  uid: number,
+  limits: ExecutionLimits,
+  stdin: string,
+  extraEnv: Record<string, string>,
+): Promise<ExecutionResult> {
+  const { command, args } = runner.command(path.posix.join(SANDBOX_DIR, runner.fileName), limits);
+
+  // The shell applies rlimits to itself and then execs the runtime, so the
+  // limits are inherited by the user program and anything it forks.
+  const ulimits = [
+    `ulimit -t ${limits.cpuSeconds}`,
+    `ulimit -f ${Math.ceil(limits.maxOutputBytes / 1024) + 1024}`,
+  ];
+  if (runner.limitAddressSpace) {
+    ulimits.push(`ulimit -v ${limits.memoryMb * 1024}`);
+  }
+  const script = `${ulimits.join(" && ")} && exec "$@"`;
+
+  return new Promise((resolve) => {
+    const startedAt = process.hrtime.bigint();
+    // bwrap hands this environment to the job; nothing else of ours gets in.
+    const child = spawn(BWRAP_BIN, [...sandboxArgs(runner, workDir, uid), "/bin/sh", "-c", script, "sh", command, ...args], {
+      cwd: workDir,
+      detached: true,
+      stdio: ["pipe", "pipe", "pipe"],
+      ...(runsAsRoot() ? { uid, gid: uid } : {}),
+      env: {
+        ...extraEnv,
+        PATH: "/usr/local/bin:/usr/bin:/bin",
+        HOME: SANDBOX_DIR,
+        TMPDIR: "/tmp",
+        LANG: "C.UTF-8",
+        PYTHONIOENCODING: "utf-8",
+      },
+    });
+
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+    let outputBytes = 0;
+    let killReason: "timeout" | "output_limit" | null = null;
+
+    const killGroup = (reason: "timeout" | "output_limit") => {
+      if (killReason) return;
+      killReason = reason;
+      try {
+        process.kill(-child.pid!, "SIGKILL");
+      } catch {
+        child.kill("SIGKILL");
+      }
+    };
+
+    const collect = (chunks: Buffer[]) => (chunk: Buffer) => {
+      const remaining = limits.maxOutputBytes - outputBytes;
+      if (remaining > 0) {
+        chunks.push(chunk.subarray(0, remaining));
+      }
+      outputBytes += chunk.length;
+      if (outputBytes > limits.maxOutputBytes) {
+        killGroup("output_limit");
+      }
+    };
+
+    child.stdout.on("data", collect(stdout));
+    child.stderr.on("data", collect(stderr));
+    // The program may exit without reading its input.
+    child.stdin.on("error", () => {});
+    child.stdin.end(stdin);
+
+    const timer = setTimeout(() => killGroup("timeout"), limits.timeoutMs);
+
+    let settled = false;
+    const finish = (exitCode: number | null, signal: NodeJS.Signals | null, spawnError?: Error) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      // Reap anything the program left running in the background.
+      try {
+        process.kill(-child.pid!, "SIGKILL");
+      } catch {}
+      const executionTime = Number((process.hrtime.bigint() - startedAt) / 1_000_000n);
+      const out = Buffer.concat(stdout).toString("utf8");
+      const err = Buffer.concat(stderr).toString("utf8");
+
+      let status: ExecutionStatus = "success";
+      let error: string | null = null;
+
+      if (spawnError) {
+        status = "runtime_error";
+        error = `Failed to start the ${runner.language} sandbox (${BWRAP_BIN}): ${spawnError.message}`;
+      } else if (killReason === "timeout") {
+        status = "timeout";
+        error = `Execution exceeded the ${limits.timeoutMs}ms time limit`;
+      } else if (killReason === "output_limit") {
+        status = "output_limit";
+        error = `Output exceeded the ${limits.maxOutputBytes} byte limit`;
+      } else if (signal === "SIGXCPU" || (signal === "SIGKILL" && executionTime >= limits.cpuSeconds * 1000)) {
+        status = "cpu_limit";
+        error = `Execution exceeded the ${limits.cpuSeconds}s CPU time limit`;
+      } else if (runner.isOutOfMemory(err)) {
+        status = "memory_limit";
+        error = `Execution exceeded the ${limits.memoryMb}MB memory limit`;
+      } else if (exitCode !== 0) {
+        status = "runtime_error";
+        error = signal ? `Process terminated by ${signal}` : `Process exited with code ${exitCode}`;
+      }
+
+      resolve({
+        status,
+        stdout: out,
+        stderr: err,
+        exitCode,
+        signal,
+        executionTime,
+        error,
+      });
+    };
+
+    child.on("error", (spawnError) => finish(null, null, spawnError));
+    child.on("close", (exitCode, signal) => finish(exitCode, signal));
+  });
+}
@@ -0,0 +1,242 @@
+import { and, eq, sql } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import { db } from "./db";
+import {
+  codeSnippets,
+  profiles,
+  projects,
+  snippetCollaborators,
+  type CodeSnippet,
+  type TransferSnippetRequest,
+} from "@shared/schema";
+import { resolveUsername, type AuthUser } from "./auth";
+import { HttpError } from "./errors";
+import { getSnippetTags, isListed, setSnippetTags } from "./gallery";
+import { extensionForLanguage, normalizeLanguage } from "./languages";
+import { findByUsername } from "./profiles";
+import { writeFileAtPath } from "./projectFiles";
+import { recordRevision } from "./revisions";
+
+// Fork trees are cut off below this depth and past this many forks.
+const MAX_TREE_DEPTH = 10;
+const MAX_TREE_NODES = 500;
+
+/**
+ * Copies a snippet into the user's account as a new private snippet that
+ * links back to the original, and bumps the original's fork count.
+ */
+export async function forkSnippet(source: CodeSnippet, user: AuthUser, title?: string) {
+  const fork = await db.transaction(async (tx) => {
+    const [fork] = await tx
+      .insert(codeSnippets)
+      .values({
+        title: title ?? source.title,
+        description: source.description,
+        content: source.content,
+        language: source.language,
+        ownerId: user.id,
+        shareToken: nanoid(12),
+        forkedFromId: source.id,
+      })
+      .returning();
+    await tx
+      .update(codeSnippets)
+      .set({ forkCount: sql`${codeSnippets.forkCount} + 1` })
+      .where(eq(codeSnippets.id, source.id));
+    return fork;
+  });
+
+  await recordRevision(fork.id, {
+    content: fork.content ?? "",
+    title: fork.title,
+    language: fork.language,
+    authorId: user.id,
+  });
+  const tagNames = await getSnippetTags(source.id);
+  if (tagNames.length > 0) {
+    await setSnippetTags(fork.id, tagNames);
+  }
+  return { ...fork, tags: tagNames };
+}
+
+interface ForkNode {
+  id: string;
+  title: string;
+  language: string | null;
+  shareToken: string;
+  author: string | null;
+  forkCount: number;
+  createdAt: Date;
+  forks: ForkNode[];
+}
+
+interface ForkRow {
+  id: string;
+  parent_id: string;
+  depth: number;
+  visible: boolean;
+  title: string;
+  language: string | null;
+  share_token: string;
+  author: string | null;
+  fork_count: number;
+  created_at: Date | string;
+}
+
+function toNode(row: ForkRow): ForkNode {
+  return {
+    id: row.id,
+    title: row.title,
+    language: row.language,
+    shareToken: row.share_token,
+    author: row.author,
+    forkCount: Number(row.fork_count),
+    createdAt: new Date(row.created_at),
+    forks: [],
+  };
+}
+
+/**
+ * The snippet's forks, forks of those, and so on. Only gallery snippets and
+ * the user's own appear; forks of a hidden snippet are attached to its
+ * nearest visible ancestor, and hidden ones are only counted.
+ */
+export async function getForkTree(snippet: CodeSnippet, user: AuthUser | undefined) {
+  const visible = user ? sql`(${isListed()} or ${codeSnippets.ownerId} = ${user.id})` : isListed();
+
+  const result = await db.execute(sql`
+    with recursive tree (id, parent_id, depth) as (
+      select ${codeSnippets.id}, ${codeSnippets.forkedFromId}, 1
+      from ${codeSnippets}
+      where ${codeSnippets.forkedFromId} = ${snippet.id}
+      union all
+      select ${codeSnippets.id}, ${codeSnippets.forkedFromId}, tree.depth + 1
+      from ${codeSnippets}
+      inner join tree on ${codeSnippets.forkedFromId} = tree.id
+      where tree.depth < ${MAX_TREE_DEPTH}
+    )
+    select
+      tree.id, tree.parent_id, tree.depth, ${visible} as visible,
+      ${codeSnippets.title} as title, ${codeSnippets.language} as language,
+      ${codeSnippets.shareToken} as share_token, ${profiles.username} as author,
+      ${codeSnippets.forkCount} as fork_count, ${codeSnippets.createdAt} as created_at
+    from tree
+    inner join ${codeSnippets} on ${codeSnippets.id} = tree.id
+    left join ${profiles} on ${profiles.id} = ${codeSnippets.ownerId}
+    order by tree.depth, ${codeSnippets.createdAt}, tree.id
+    limit ${MAX_TREE_NODES + 1}
+  `);
+  const rows = result.rows as unknown as ForkRow[];
+  const truncated = rows.length > MAX_TREE_NODES;
+
+  // Rows come parents first, so each parent is placed before its forks.
+  const nodes = new Map<string, ForkNode>();
+  const visibleAncestor = new Map<string, string>([[snippet.id, snippet.id]]);
+  const root: ForkNode[] = [];
+  let hiddenCount = 0;
+
+  for (const row of rows.slice(0, MAX_TREE_NODES)) {
+    const ancestor = visibleAncestor.get(row.parent_id) ?? snippet.id;
+    if (!row.visible) {
+      hiddenCount++;
+      visibleAncestor.set(row.id, ancestor);
+      continue;
+    }
+    const node = toNode(row);
+    nodes.set(row.id, node);
+    visibleAncestor.set(row.id, row.id);
+    (ancestor === snippet.id ? root : nodes.get(ancestor)!.forks).push(node);
+  }
+
+  let forkedFrom = null;
+  if (snippet.forkedFromId) {
+    const [parent] = await db
+      .select({
+        id: codeSnippets.id,
+        title: codeSnippets.title,
+        language: codeSnippets.language,
+        shareToken: codeSnippets.shareToken,
+        author: profiles.username,
+      })
+      .from(codeSnippets)
+      .leftJoin(profiles, eq(profiles.id, codeSnippets.ownerId))
+      .where(and(eq(codeSnippets.id, snippet.forkedFromId), visible))
+      .limit(1);
+    forkedFrom = parent ?? { hidden: true };
+  }
+
+  return {
+    snippetId: snippet.id,
+    forkCount: snippet.forkCount,
+    forkedFrom,
+    forks: root,
+    hiddenCount,
+    truncated,
+  };
+}
+
+/** Creates a project owned by the user holding the snippet as its only file. */
+export async function convertSnippetToProject(
+  snippet: CodeSnippet,
+  user: AuthUser,
+  options: { name?: string; path?: string },
+) {
+  const language = normalizeLanguage(snippet.language);
+  const path = options.path ?? `main.${extensionForLanguage(language)}`;
+
+  return db.transaction(async (tx) => {
+    const [project] = await tx
+      .insert(projects)
+      .values({
+        ownerId: user.id,
+        name: options.name ?? snippet.title,
+        description: snippet.description,
+      })
+      .returning();
+    const file = await writeFileAtPath(tx, project.id, path, { content: snippet.content ?? "", language }, new Map());
+    return { project: { ...project, role: "owner" }, file };
+  });
+}
+
+/**
+ * Hands the snippet to another user. The new owner stops being a
+ * collaborator; with `keepAccess` the previous owner becomes one.
+ */
+export async function transferSnippet(snippet: CodeSnippet, user: AuthUser, request: TransferSnippetRequest) {
+  const [target] = request.userId
+    ? await db
+      .select({ id: profiles.id, username: profiles.username })
+      .from(profiles)
+      .where(eq(profiles.id, request.userId))
+      .limit(1)
+    : [await findByUsername(request.username!.trim())];
+  if (!target) {
+    throw new HttpError(404, "User not found");
+  }
+  if (target.id === snippet.ownerId) {
+    throw new HttpError(400, "That user already owns this snippet");
+  }
+  const previousOwnerName = await resolveUsername(user);
+
+  return db.transaction(async (tx) => {
+    const [updated] = await tx
+      .update(codeSnippets)
+      .set({ ownerId: target.id, updatedAt: new Date() })
+      .where(and(eq(codeSnippets.id, snippet.id), eq(codeSnippets.ownerId, user.id)))
+      .returning();
+    if (!updated) {
+      throw new HttpError(409, "The snippet changed owner while transferring; try again");
+    }
+
+    await tx
+      .delete(snippetCollaborators)
+      .where(and(eq(snippetCollaborators.snippetId, snippet.id), eq(snippetCollaborators.userId, target.id)));
+    if (request.keepAccess) {
+      await tx
+        .insert(snippetCollaborators)
+        .values({ snippetId: snippet.id, userId: user.id, username: previousOwnerName })
+        .onConflictDoNothing();
+    }
+    return updated;
+  });
+}
@@ -0,0 +1,146 @@
+import * as prettier from "prettier";
+import { createTwoFilesPatch } from "diff";
+import { and, eq, isNull } from "drizzle-orm";
+import { db } from "./db";
+import { projectFiles } from "@shared/schema";
+import { HttpError } from "./errors";
+import { normalizeLanguage } from "./languages";
+
+// Prettier parser for each `language` value it can format.
+const PARSERS: Record<string, string> = {
+  javascript: "babel",
+  typescript: "typescript",
+  json: "json",
+  css: "css",
+  scss: "scss",
+  less: "less",
+  html: "html",
+  vue: "vue",
+  markdown: "markdown",
+  yaml: "yaml",
+  graphql: "graphql",
+};
+
+const MAX_FORMAT_BYTES = 512 * 1024;
+
+export interface FormatOptions {
+  tabWidth?: number;
+  useTabs?: boolean;
+  singleQuote?: boolean;
+  semi?: boolean;
+  printWidth?: number;
+}
+
+export interface FormatErrorLocation {
+  line: number;
+  column: number;
+}
+
+export function parserForLanguage(language: string | null | undefined) {
+  const normalized = normalizeLanguage(language);
+  return normalized ? PARSERS[normalized] : undefined;
+}
+
+export function formattableLanguages() {
+  return Object.keys(PARSERS);
+}
+
+// Prettier reports syntax errors with a 1-based `loc.start`.
+function errorLocation(error: any): FormatErrorLocation | undefined {
+  const start = error?.loc?.start;
+  if (typeof start?.line !== "number") return undefined;
+  return { line: start.line, column: start.column ?? 1 };
+}
+
+function firstLine(message: string) {
+  return message.split("\n")[0].trim();
+}
+
+/**
+ * Formats `code` with the Prettier parser for `language`. Syntax errors
+ * surface as a 422 carrying the error location.
+ */
+export async function formatCode(code: string, language: string, options: FormatOptions = {}, fileName = "input") {
+  const parser = parserForLanguage(language);
+  if (!parser) {
+    throw new HttpError(400, `Formatting is not supported for "${language}". Supported: ${formattableLanguages().join(", ")}`);
+  }
+  if (Buffer.byteLength(code, "utf8") > MAX_FORMAT_BYTES) {
+    throw new HttpError(413, `Code is limited to ${MAX_FORMAT_BYTES / 1024}KB for formatting`);
+  }
+
+  let formatted: string;
+  try {
+    formatted = await prettier.format(code, { ...options, parser });
+  } catch (error: any) {
+    const location = errorLocation(error);
+    if (!location && !(error instanceof SyntaxError)) {
+      throw error;
+    }
+    throw new HttpError(422, firstLine(error.message), { location: location ?? null });
+  }
+
+  return {
+    parser,
+    formattedCode: formatted,
+    changed: formatted !== code,
+    diff: formatted === code ? "" : createTwoFilesPatch(fileName, fileName, code, formatted, undefined, undefined, { context: 3 }),
+  };
+}
+
+/*
+ * Formats every file in a project whose language Prettier supports. Files
+ * that fail to parse are reported individually rather than failing the call.
+ * With `apply` the formatted content is written back in one transaction;
+ * files edited since they were read are left alone and marked `skipped`.
+ */
+export async function formatProject(projectId: string, options: FormatOptions = {}, apply = false) {
+  const files = await db
+    .select()
+    .from(projectFiles)
+    .where(and(eq(projectFiles.projectId, projectId), eq(projectFiles.type, "file")));
+
+  const results = [];
+  const updates: Array<{ id: string; before: string | null; after: string }> = [];
+  for (const file of files) {
+    if (!parserForLanguage(file.language)) continue;
+
+    const content = file.content ?? "";
+    try {
+      const { formattedCode, changed, diff } = await formatCode(content, file.language!, options, file.path);
+      results.push({ fileId: file.id, path: file.path, changed, diff });
+      if (changed) updates.push({ id: file.id, before: file.content, after: formattedCode });
+    } catch (error) {
+      if (!(error instanceof HttpError)) throw error;
+      results.push({ fileId: file.id, path: file.path, changed: false, error: error.message, ...error.details });
+    }
+  }
+
+  const skipped = new Set<string>();
+  if (apply && updates.length > 0) {
+    await db.transaction(async (tx) => {
+      for (const update of updates) {
+        // Skip files edited since they were read rather than overwrite them.
+        const [written] = await tx
+          .update(projectFiles)
+          .set({ content: update.after, updatedAt: new Date() })
+          .where(and(
+            eq(projectFiles.id, update.id),
+            update.before === null ? isNull(projectFiles.content) : eq(projectFiles.content, update.before),
+          ))
+          .returning({ id: projectFiles.id });
+        if (!written) skipped.add(update.id);
+      }
+    });
+  }
+
+  return {
+    applied: apply,
+    changed: updates.length - skipped.size,
+    skipped: skipped.size,
+    failed: results.filter((result) => "error" in result).length,
+    files: results
+      .map((result) => (skipped.has(result.fileId) ? { ...result, skipped: true } : result))
+      .sort((a, b) => a.path.localeCompare(b.path)),
+  };
+}
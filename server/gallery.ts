@@ -0,0 +1,208 @@
+import { and, count, desc, eq, gt, inArray, isNull, or, sql, type SQL } from "drizzle-orm";
+import { alias, type AnyPgColumn } from "drizzle-orm/pg-core";
+import { db } from "./db";
+import {
+  codeSnippets,
+  profiles,
+  snippetSearchVector,
+  snippetTags,
+  tags,
+  type GalleryQuery,
+} from "@shared/schema";
+import { HttpError } from "./errors";
+import { languageVariants } from "./languages";
+
+const DEFAULT_PAGE_SIZE = 24;
+const MAX_TAGS_PER_SNIPPET = 5;
+const TAG_PATTERN = /^[a-z0-9][a-z0-9+#.-]{0,31}$/;
+const EXCERPT_LENGTH = 280;
+// In the popular ordering a fork counts for this many views.
+const FORK_WEIGHT = 10;
+
+type SnippetColumns = typeof codeSnippets;
+// The columns the orderings read, so the table and an alias of it both fit.
+type SortColumns = Record<
+  "id" | "createdAt" | "viewCount" | "forkCount" | "isFeatured" | "title" | "description" | "content",
+  AnyPgColumn
+>;
+
+/** The only snippets the gallery ever shows: public, unprotected and unexpired. */
+export function isListed(table: SnippetColumns = codeSnippets): SQL {
+  return and(
+    eq(table.isPublic, true),
+    or(isNull(table.isProtected), eq(table.isProtected, false)),
+    or(isNull(table.expiresAt), gt(table.expiresAt, sql`now()`)),
+  )!;
+}
+
+/** Lowercases tags and turns spaces into dashes; rejects anything else unusual. */
+export function normalizeTags(names: string[]) {
+  const normalized = [...new Set(names.map((name) => name.trim().toLowerCase().replace(/\s+/g, "-")).filter(Boolean))];
+  const invalid = normalized.find((name) => !TAG_PATTERN.test(name));
+  if (invalid) {
+    throw new HttpError(400, `Invalid tag "${invalid}": use up to 32 letters, digits or + # . -`);
+  }
+  if (normalized.length > MAX_TAGS_PER_SNIPPET) {
+    throw new HttpError(400, `Snippets can have at most ${MAX_TAGS_PER_SNIPPET} tags`);
+  }
+  return normalized;
+}
+
+/** Replaces a snippet's tags, creating any tags that do not exist yet. */
+export async function setSnippetTags(snippetId: string, names: string[]) {
+  const normalized = normalizeTags(names);
+
+  await db.transaction(async (tx) => {
+    await tx.delete(snippetTags).where(eq(snippetTags.snippetId, snippetId));
+    if (normalized.length === 0) return;
+
+    await tx.insert(tags).values(normalized.map((name) => ({ name }))).onConflictDoNothing();
+    const rows = await tx.select({ id: tags.id }).from(tags).where(inArray(tags.name, normalized));
+    await tx.insert(snippetTags).values(rows.map((tag) => ({ snippetId, tagId: tag.id })));
+  });
+  return normalized;
+}
+
+async function tagsBySnippet(snippetIds: string[]) {
+  const byId = new Map<string, string[]>();
+  if (snippetIds.length === 0) return byId;
+
+  const rows = await db
+    .select({ snippetId: snippetTags.snippetId, name: tags.name })
+    .from(snippetTags)
+    .innerJoin(tags, eq(tags.id, snippetTags.tagId))
+    .where(inArray(snippetTags.snippetId, snippetIds))
+    .orderBy(tags.name);
+  for (const row of rows) {
+    byId.set(row.snippetId, [...(byId.get(row.snippetId) ?? []), row.name]);
+  }
+  return byId;
+}
+
+export async function getSnippetTags(snippetId: string) {
+  return (await tagsBySnippet([snippetId])).get(snippetId) ?? [];
+}
+
+export async function recordView(snippetId: string) {
+  await db
+    .update(codeSnippets)
+    .set({ viewCount: sql`${codeSnippets.viewCount} + 1` })
+    .where(eq(codeSnippets.id, snippetId));
+}
+
+export async function setFeatured(snippetId: string, featured: boolean) {
+  const [snippet] = await db
+    .update(codeSnippets)
+    .set({ isFeatured: featured })
+    .where(eq(codeSnippets.id, snippetId))
+    .returning({ id: codeSnippets.id, isFeatured: codeSnippets.isFeatured });
+  if (!snippet) {
+    throw new HttpError(404, "Snippet not found");
+  }
+  return snippet;
+}
+
+// Ordering keys for a sort, all descending, ending in the id as a tie-breaker.
+function sortKeys(sort: GalleryQuery["sort"], table: SortColumns, query: SQL | null): SQL[] {
+  switch (sort) {
+    case "relevance":
+      return [sql`ts_rank(${snippetSearchVector(table)}, ${query})`, sql`${table.id}`];
+    case "featured":
+      return [sql`coalesce(${table.isFeatured}, false)`, sql`${table.createdAt}`, sql`${table.id}`];
+    case "popular":
+      return [
+        sql`${table.viewCount} + ${table.forkCount} * ${sql.raw(String(FORK_WEIGHT))}`,
+        sql`${table.createdAt}`,
+        sql`${table.id}`,
+      ];
+    default:
+      return [sql`${table.createdAt}`, sql`${table.id}`];
+  }
+}
+
+/**
+ * Lists gallery snippets. Search uses the snippet full-text index and sorts
+ * by relevance unless another sort is asked for. Pages continue from
+ * `cursor`, the id of the last snippet on the previous page.
+ */
+export async function listGallery(options: GalleryQuery) {
+  const query = options.q ? sql`websearch_to_tsquery('english', ${options.q})` : null;
+  const sort = options.sort ?? (query ? "relevance" : "recent");
+  if (sort === "relevance" && !query) {
+    throw new HttpError(400, "Sorting by relevance requires a search query");
+  }
+  const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+
+  const conditions: SQL[] = [isListed()];
+  if (query) {
+    conditions.push(sql`${snippetSearchVector(codeSnippets)} @@ ${query}`);
+  }
+  if (options.language) {
+    conditions.push(inArray(sql`lower(${codeSnippets.language})`, languageVariants(options.language)));
+  }
+  for (const tag of options.tag ? normalizeTags(options.tag.split(",")) : []) {
+    conditions.push(sql`exists (
+      select 1 from ${snippetTags}
+      inner join ${tags} on ${tags.id} = ${snippetTags.tagId}
+      where ${snippetTags.snippetId} = ${codeSnippets.id} and ${tags.name} = ${tag}
+    )`);
+  }
+
+  const keys = sortKeys(sort, codeSnippets, query);
+  if (options.cursor) {
+    const cursorSnippet = alias(codeSnippets, "cursor_snippet");
+    const [known] = await db
+      .select({ id: cursorSnippet.id })
+      .from(cursorSnippet)
+      .where(eq(cursorSnippet.id, options.cursor))
+      .limit(1);
+    if (!known) {
+      throw new HttpError(400, "Unknown cursor");
+    }
+    const cursorKeys = sortKeys(sort, cursorSnippet, query);
+    conditions.push(sql`(${sql.join(keys, sql`, `)}) < (select ${sql.join(cursorKeys, sql`, `)} from ${codeSnippets} as ${sql.identifier("cursor_snippet")} where ${cursorSnippet.id} = ${options.cursor})`);
+  }
+
+  const rows = await db
+    .select({
+      id: codeSnippets.id,
+      title: codeSnippets.title,
+      description: codeSnippets.description,
+      language: codeSnippets.language,
+      shareToken: codeSnippets.shareToken,
+      ownerId: codeSnippets.ownerId,
+      author: profiles.username,
+      excerpt: sql<string>`left(coalesce(${codeSnippets.content}, ''), ${EXCERPT_LENGTH})`,
+      isFeatured: codeSnippets.isFeatured,
+      viewCount: codeSnippets.viewCount,
+      forkCount: codeSnippets.forkCount,
+      createdAt: codeSnippets.createdAt,
+      updatedAt: codeSnippets.updatedAt,
+    })
+    .from(codeSnippets)
+    .leftJoin(profiles, eq(profiles.id, codeSnippets.ownerId))
+    .where(and(...conditions))
+    .orderBy(...keys.map((key) => desc(key)))
+    .limit(limit + 1);
+
+  const page = rows.slice(0, limit);
+  const tagMap = await tagsBySnippet(page.map((row) => row.id));
+  return {
+    snippets: page.map((row) => ({ ...row, tags: tagMap.get(row.id) ?? [] })),
+    sort,
+    nextCursor: rows.length > limit ? page[page.length - 1].id : null,
+  };
+}
+
+/** The most used tags among gallery snippets. */
+export async function listPopularTags(limit = 50) {
+  return db
+    .select({ name: tags.name, count: count() })
+    .from(snippetTags)
+    .innerJoin(tags, eq(tags.id, snippetTags.tagId))
+    .innerJoin(codeSnippets, eq(codeSnippets.id, snippetTags.snippetId))
+    .where(isListed())
+    .groupBy(tags.name)
+    .orderBy(desc(count()), tags.name)
+    .limit(limit);
+}
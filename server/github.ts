@@ -0,0 +1,513 @@
+import { createHash } from "crypto";
+import { Octokit } from "@octokit/rest";
+import { and, eq } from "drizzle-orm";
+import { db } from "./db";
+import { projectFiles, projects, type Project } from "@shared/schema";
+import { HttpError } from "./errors";
+import { lockProjectTree, splitPath, writeFileAtPath } from "./projectFiles";
+
+// Files above this size, binary files, symlinks and submodules stay on GitHub
+// only; project files hold text.
+export const MAX_SYNC_FILE_BYTES = 1024 * 1024;
+const BLOB_FETCH_CONCURRENCY = 8;
+
+export interface GitHubRepoRef {
+  owner: string;
+  repo: string;
+  branch: string;
+}
+
+export interface GitTreeEntry {
+  path: string;
+  sha: string;
+  type: "blob" | "tree" | "commit";
+  mode: string;
+  size?: number;
+}
+
+export interface GitTreeChange {
+  path: string;
+  mode: string;
+  // null removes the path from the tree.
+  sha: string | null;
+}
+
+/**
+ * The subset of the GitHub git data API that sync needs. The default
+ * implementation uses Octokit; tests can substitute their own through
+ * `setGitHubClientFactory`, or point Octokit at a fake server with GITHUB_API_URL.
+ */
+export interface GitHubClient {
+  getBranchHead(ref: GitHubRepoRef): Promise<{ commitSha: string; treeSha: string }>;
+  getCommitTree(owner: string, repo: string, commitSha: string): Promise<string>;
+  getTree(owner: string, repo: string, treeSha: string): Promise<GitTreeEntry[]>;
+  getBlob(owner: string, repo: string, sha: string): Promise<Buffer>;
+  createBlob(owner: string, repo: string, content: string): Promise<string>;
+  createTree(owner: string, repo: string, baseTree: string, changes: GitTreeChange[]): Promise<string>;
+  createCommit(owner: string, repo: string, input: { message: string; tree: string; parents: string[] }): Promise<string>;
+  updateBranch(ref: GitHubRepoRef, commitSha: string): Promise<void>;
+}
+
+function mapGitHubError(error: any): Error {
+  if (error instanceof HttpError || typeof error?.status !== "number") {
+    return error;
+  }
+  if (error.status === 404) {
+    return new HttpError(404, "GitHub repository, branch or object not found");
+  }
+  if (error.status === 409 || error.status === 422) {
+    return new HttpError(409, `GitHub rejected the update: ${error.message}`);
+  }
+  return new HttpError(502, `GitHub request failed: ${error.message}`);
+}
+
+class OctokitGitHubClient implements GitHubClient {
+  private octokit: Octokit;
+
+  constructor(token: string) {
+    this.octokit = new Octokit({
+      auth: token,
+      baseUrl: process.env.GITHUB_API_URL || undefined,
+      userAgent: "coderfile",
+      // Failures are mapped to HttpErrors and reported by the caller.
+      log: { debug: () => {}, info: () => {}, warn: console.warn, error: () => {} },
+    });
+  }
+
+  async getBranchHead(ref: GitHubRepoRef) {
+    const { data } = await this.octokit.rest.git.getRef({
+      owner: ref.owner,
+      repo: ref.repo,
+      ref: `heads/${ref.branch}`,
+    });
+    const commitSha = data.object.sha;
+    return { commitSha, treeSha: await this.getCommitTree(ref.owner, ref.repo, commitSha) };
+  }
+
+  async getCommitTree(owner: string, repo: string, commitSha: string) {
+    const { data } = await this.octokit.rest.git.getCommit({ owner, repo, commit_sha: commitSha });
+    return data.tree.sha;
+  }
+
+  async getTree(owner: string, repo: string, treeSha: string) {
+    const { data } = await this.octokit.rest.git.getTree({ owner, repo, tree_sha: treeSha, recursive: "true" });
+    if (data.truncated) {
+      throw new HttpError(422, "Repository is too large to sync");
+    }
+    return data.tree.map((entry) => ({
+      path: entry.path!,
+      sha: entry.sha!,
+      type: entry.type as GitTreeEntry["type"],
+      mode: entry.mode!,
+      size: entry.size,
+    }));
+  }
+
+  async getBlob(owner: string, repo: string, sha: string) {
+    const { data } = await this.octokit.rest.git.getBlob({ owner, repo, file_sha: sha });
+    return Buffer.from(data.content, data.encoding === "base64" ? "base64" : "utf8");
+  }
+
+  async createBlob(owner: string, repo: string, content: string) {
+    const { data } = await this.octokit.rest.git.createBlob({
+      owner,
+      repo,
+      content: Buffer.from(content, "utf8").toString("base64"),
+      encoding: "base64",
+    });
+    return data.sha;
+  }
+
+  async createTree(owner: string, repo: string, baseTree: string, changes: GitTreeChange[]) {
+    const { data } = await this.octokit.rest.git.createTree({
+      owner,
+      repo,
+      base_tree: baseTree,
+      tree: changes.map((change) => ({
+        path: change.path,
+        mode: change.mode as "100644",
+        type: "blob" as const,
+        sha: change.sha,
+      })),
+    });
+    return data.sha;
+  }
+
+  async createCommit(owner: string, repo: string, input: { message: string; tree: string; parents: string[] }) {
+    const { data } = await this.octokit.rest.git.createCommit({ owner, repo, ...input });
+    return data.sha;
+  }
+
+  async updateBranch(ref: GitHubRepoRef, commitSha: string) {
+    // Never forced: if the branch moved since we read it, GitHub refuses the
+    // update and the caller has to pull first.
+    await this.octokit.rest.git.updateRef({
+      owner: ref.owner,
+      repo: ref.repo,
+      ref: `heads/${ref.branch}`,
+      sha: commitSha,
+      force: false,
+    });
+  }
+}
+
+let clientFactory: (token: string) => GitHubClient = (token) => new OctokitGitHubClient(token);
+
+export function setGitHubClientFactory(factory: (token: string) => GitHubClient) {
+  clientFactory = factory;
+}
+
+/**
+ * Wraps a client so every GitHub failure surfaces as an HttpError. Requests are
+ * always made with the caller's own token, never with credentials of the
+ * server's, so nobody can reach a repository through us that they could not
+ * reach themselves.
+ */
+function createClient(token?: string): GitHubClient {
+  if (!token) {
+    throw new HttpError(400, "A GitHub token is required; pass one in the X-GitHub-Token header");
+  }
+  const client = clientFactory(token);
+  return new Proxy(client, {
+    get(target, property, receiver) {
+      const value = Reflect.get(target, property, receiver);
+      if (typeof value !== "function") return value;
+      return async (...args: unknown[]) => {
+        try {
+          return await value.apply(target, args);
+        } catch (error) {
+          throw mapGitHubError(error);
+        }
+      };
+    },
+  });
+}
+
+/** The SHA git assigns to a blob with this content. */
+export function gitBlobSha(content: string | Buffer) {
+  const bytes = typeof content === "string" ? Buffer.from(content, "utf8") : content;
+  return createHash("sha1").update(`blob ${bytes.length}\0`).update(bytes).digest("hex");
+}
+
+export function parseRepoUrl(url: string): { owner: string; repo: string } {
+  const match = /^(?:https?:\/\/[^/]+\/|git@[^:]+:)?([\w.-]+)\/([\w.-]+?)(?:\.git)?\/?$/.exec(url.trim());
+  if (!match) {
+    throw new HttpError(400, `"${url}" is not a GitHub repository URL`);
+  }
+  return { owner: match[1], repo: match[2] };
+}
+
+function isSyncable(entry: GitTreeEntry) {
+  if (entry.type !== "blob") return false;
+  if (entry.mode !== "100644" && entry.mode !== "100755") return false;
+  if ((entry.size ?? 0) > MAX_SYNC_FILE_BYTES) return false;
+  try {
+    return splitPath(entry.path).join("/") === entry.path;
+  } catch {
+    return false;
+  }
+}
+
+function syncableEntries(tree: GitTreeEntry[]) {
+  return new Map(tree.filter(isSyncable).map((entry) => [entry.path, entry]));
+}
+
+// Blobs that fail to decode as UTF-8, or contain NUL bytes, are treated as binary.
+export function decodeText(bytes: Buffer): string | null {
+  if (bytes.includes(0)) return null;
+  const text = bytes.toString("utf8");
+  return Buffer.from(text, "utf8").equals(bytes) ? text : null;
+}
+
+/** Fetches blobs a few at a time and returns path -> text, or null for binary blobs. */
+async function fetchTexts(client: GitHubClient, owner: string, repo: string, entries: GitTreeEntry[]) {
+  const texts = new Map<string, string | null>();
+  for (let i = 0; i < entries.length; i += BLOB_FETCH_CONCURRENCY) {
+    const batch = entries.slice(i, i + BLOB_FETCH_CONCURRENCY);
+    const blobs = await Promise.all(batch.map((entry) => client.getBlob(owner, repo, entry.sha)));
+    batch.forEach((entry, index) => texts.set(entry.path, decodeText(blobs[index])));
+  }
+  return texts;
+}
+
+function linkedRepo(project: Project): GitHubRepoRef {
+  if (!project.githubOwner || !project.githubRepo) {
+    throw new HttpError(400, "Project is not linked to a GitHub repository");
+  }
+  return { owner: project.githubOwner, repo: project.githubRepo, branch: project.githubBranch || "main" };
+}
+
+function syncedRepo(project: Project) {
+  const ref = linkedRepo(project);
+  if (!project.githubSyncedSha) {
+    throw new HttpError(400, "Project has not been imported from GitHub yet");
+  }
+  return { ref, syncedSha: project.githubSyncedSha };
+}
+
+async function loadTextFiles(executor: Pick<typeof db, "select">, projectId: string) {
+  const files = await executor
+    .select()
+    .from(projectFiles)
+    .where(and(eq(projectFiles.projectId, projectId), eq(projectFiles.type, "file")));
+  return new Map(files.map((file) => [file.path, file]));
+}
+
+// Fails when another sync moved the project while we were talking to GitHub.
+async function assertSyncedSha(tx: Parameters<typeof lockProjectTree>[0], projectId: string, expected: string | null) {
+  const [current] = await tx
+    .select({ githubSyncedSha: projects.githubSyncedSha })
+    .from(projects)
+    .where(eq(projects.id, projectId))
+    .limit(1);
+  if (!current || current.githubSyncedSha !== expected) {
+    throw new HttpError(409, "Project was synced concurrently; try again");
+  }
+}
+
+/**
+ * Imports a branch into the project and links the project to it. A project
+ * that already has files is only overwritten when `replace` is set.
+ */
+export async function importFromGitHub(project: Project, input: {
+  owner: string;
+  repo: string;
+  branch: string;
+  replace?: boolean;
+  token?: string;
+}) {
+  const ref = { owner: input.owner, repo: input.repo, branch: input.branch };
+  const client = createClient(input.token);
+  const head = await client.getBranchHead(ref);
+  const entries = [...syncableEntries(await client.getTree(ref.owner, ref.repo, head.treeSha)).values()];
+  const texts = await fetchTexts(client, ref.owner, ref.repo, entries);
+
+  return db.transaction(async (tx) => {
+    await lockProjectTree(tx, project.id);
+
+    const [existing] = await tx
+      .select({ id: projectFiles.id })
+      .from(projectFiles)
+      .where(eq(projectFiles.projectId, project.id))
+      .limit(1);
+    if (existing && !input.replace) {
+      throw new HttpError(409, "Project already has files; set replace to overwrite them");
+    }
+    await tx.delete(projectFiles).where(eq(projectFiles.projectId, project.id));
+
+    const folders = new Map<string, string>();
+    const skipped: string[] = [];
+    let imported = 0;
+    for (const entry of entries) {
+      const content = texts.get(entry.path);
+      if (content == null) {
+        skipped.push(entry.path);
+        continue;
+      }
+      await writeFileAtPath(tx, project.id, entry.path, { content, githubSha: entry.sha }, folders);
+      imported += 1;
+    }
+
+    await tx
+      .update(projects)
+      .set({
+        githubRepoUrl: `https://github.com/${ref.owner}/${ref.repo}`,
+        githubOwner: ref.owner,
+        githubRepo: ref.repo,
+        githubBranch: ref.branch,
+        githubSyncedSha: head.commitSha,
+        updatedAt: new Date(),
+      })
+      .where(eq(projects.id, project.id));
+
+    return { commitSha: head.commitSha, imported, skipped };
+  });
+}
+
+export type PullResolution = "ours" | "theirs";
+
+/*
+ * Three-way pull against the last synced commit (the base):
+ * - a path GitHub did not change is left alone;
+ * - a path only GitHub changed takes the remote version, including deletions;
+ * - a path both sides changed identically is just marked synced;
+ * - any other path changed on both sides is a conflict. Without `resolve` the
+ *   pull fails with 409 and the conflicting paths; "theirs" takes GitHub's
+ *   version and "ours" keeps the local one for the next push.
+ */
+export async function pullFromGitHub(project: Project, input: { resolve?: PullResolution; token?: string } = {}) {
+  const { ref, syncedSha } = syncedRepo(project);
+  const client = createClient(input.token);
+  const head = await client.getBranchHead(ref);
+  if (head.commitSha === syncedSha) {
+    return { status: "up_to_date" as const, commitSha: syncedSha, updated: [], deleted: [], conflicts: [] };
+  }
+
+  const baseTreeSha = await client.getCommitTree(ref.owner, ref.repo, syncedSha);
+  const [base, remote] = await Promise.all([
+    client.getTree(ref.owner, ref.repo, baseTreeSha).then(syncableEntries),
+    client.getTree(ref.owner, ref.repo, head.treeSha).then(syncableEntries),
+  ]);
+
+  const changedRemote = [...remote.values()].filter((entry) => base.get(entry.path)?.sha !== entry.sha);
+  const texts = await fetchTexts(client, ref.owner, ref.repo, changedRemote);
+  const paths = new Set([...base.keys(), ...remote.keys()]);
+
+  return db.transaction(async (tx) => {
+    await lockProjectTree(tx, project.id);
+    await assertSyncedSha(tx, project.id, syncedSha);
+    const local = await loadTextFiles(tx, project.id);
+
+    const updated: string[] = [];
+    const deleted: string[] = [];
+    const conflicts: string[] = [];
+    const folders = new Map<string, string>();
+    const writes: Array<() => Promise<unknown>> = [];
+
+    for (const path of paths) {
+      const baseSha = base.get(path)?.sha;
+      const remoteEntry = remote.get(path);
+      if (remoteEntry?.sha === baseSha) continue;
+
+      // A changed remote blob we cannot hold as text is left on GitHub only.
+      const remoteText = remoteEntry ? texts.get(path) : undefined;
+      if (remoteText === null) continue;
+
+      const file = local.get(path);
+      const localSha = file ? gitBlobSha(file.content ?? "") : undefined;
+
+      if (localSha === remoteEntry?.sha) {
+        if (file && file.githubSha !== localSha) {
+          writes.push(() => tx.update(projectFiles).set({ githubSha: localSha }).where(eq(projectFiles.id, file.id)));
+        }
+        continue;
+      }
+
+      if (localSha !== baseSha) {
+        conflicts.push(path);
+        if (input.resolve !== "theirs") continue;
+      }
+
+      if (remoteEntry) {
+        updated.push(path);
+        writes.push(() => writeFileAtPath(tx, project.id, path, { content: remoteText!, githubSha: remoteEntry.sha }, folders));
+      } else if (file) {
+        deleted.push(path);
+        writes.push(() => tx.delete(projectFiles).where(eq(projectFiles.id, file.id)));
+      }
+    }
+
+    if (conflicts.length > 0 && !input.resolve) {
+      throw new HttpError(409, "Local and remote changes conflict", { conflicts });
+    }
+
+    for (const write of writes) {
+      await write();
+    }
+    await tx
+      .update(projects)
+      .set({ githubSyncedSha: head.commitSha, updatedAt: new Date() })
+      .where(eq(projects.id, project.id));
+
+    return { status: "pulled" as const, commitSha: head.commitSha, updated, deleted, conflicts };
+  });
+}
+
+/**
+ * Commits every local change on top of the synced commit. If the branch has
+ * moved on GitHub the push fails with 409 and the project must be pulled first.
+ */
+export async function pushToGitHub(project: Project, input: { message: string; token?: string }) {
+  const { ref, syncedSha } = syncedRepo(project);
+  const client = createClient(input.token);
+  const head = await client.getBranchHead(ref);
+  if (head.commitSha !== syncedSha) {
+    throw new HttpError(409, "GitHub has commits that are not in this project; pull first", {
+      remoteSha: head.commitSha,
+      syncedSha,
+    });
+  }
+
+  const remote = syncableEntries(await client.getTree(ref.owner, ref.repo, head.treeSha));
+  const local = await loadTextFiles(db, project.id);
+
+  const changes: GitTreeChange[] = [];
+  const pushed: Array<{ id: string; content: string; sha: string }> = [];
+  for (const file of local.values()) {
+    const content = file.content ?? "";
+    const sha = gitBlobSha(content);
+    const remoteEntry = remote.get(file.path);
+    if (remoteEntry?.sha === sha) continue;
+
+    await client.createBlob(ref.owner, ref.repo, content);
+    changes.push({ path: file.path, mode: remoteEntry?.mode ?? "100644", sha });
+    pushed.push({ id: file.id, content, sha });
+  }
+
+  // Binary files were never imported, so their absence is not a deletion.
+  const missing = [...remote.values()].filter((entry) => !local.has(entry.path));
+  const texts = await fetchTexts(client, ref.owner, ref.repo, missing);
+  const deleted = missing.filter((entry) => texts.get(entry.path) !== null).map((entry) => entry.path);
+  for (const path of deleted) {
+    changes.push({ path, mode: remote.get(path)!.mode, sha: null });
+  }
+
+  if (changes.length === 0) {
+    return { status: "up_to_date" as const, commitSha: syncedSha, updated: [], deleted: [] };
+  }
+
+  const tree = await client.createTree(ref.owner, ref.repo, head.treeSha, changes);
+  const commitSha = await client.createCommit(ref.owner, ref.repo, {
+    message: input.message,
+    tree,
+    parents: [head.commitSha],
+  });
+  await client.updateBranch(ref, commitSha);
+
+  await db.transaction(async (tx) => {
+    await lockProjectTree(tx, project.id);
+    // Files edited while the push was in flight keep their old sha and show
+    // up as modified.
+    for (const file of pushed) {
+      await tx
+        .update(projectFiles)
+        .set({ githubSha: file.sha })
+        .where(and(eq(projectFiles.id, file.id), eq(projectFiles.content, file.content)));
+    }
+    await tx
+      .update(projects)
+      .set({ githubSyncedSha: commitSha, updatedAt: new Date() })
+      .where(eq(projects.id, project.id));
+  });
+
+  return {
+    status: "pushed" as const,
+    commitSha,
+    updated: changes.filter((change) => change.sha).map((change) => change.path),
+    deleted,
+  };
+}
+
+/** Local sync state, plus the remote head when `remote` is set. */
+export async function getGitHubStatus(project: Project, options: { remote?: boolean; token?: string } = {}) {
+  const ref = project.githubOwner && project.githubRepo ? linkedRepo(project) : null;
+  const local = await loadTextFiles(db, project.id);
+  const modified = [...local.values()]
+    .filter((file) => file.githubSha !== gitBlobSha(file.content ?? ""))
+    .map((file) => file.path);
+
+  let remoteSha: string | undefined;
+  if (ref && options.remote) {
+    remoteSha = (await createClient(options.token).getBranchHead(ref)).commitSha;
+  }
+
+  return {
+    linked: Boolean(ref),
+    owner: ref?.owner ?? null,
+    repo: ref?.repo ?? null,
+    branch: ref?.branch ?? null,
+    syncedSha: project.githubSyncedSha,
+    modified,
+    ...(remoteSha !== undefined && { remoteSha, behind: remoteSha !== project.githubSyncedSha }),
+  };
+}
@@ -0,0 +1,200 @@
+import type { CodingChallenge } from "@shared/schema";
+import { executeCode, type ExecutionStatus } from "./executor";
+
+export interface ChallengeTestCase {
+  input: unknown;
+  expected: unknown;
+  description?: string;
+  hidden?: boolean;
+}
+
+export interface TestCaseResult {
+  index: number;
+  description: string | null;
+  hidden: boolean;
+  passed: boolean;
+  status: ExecutionStatus;
+  timeMs: number;
+  // Omitted for hidden cases so their data never reaches the client.
+  input?: string;
+  expected?: string;
+  actual?: string;
+  stderr?: string;
+}
+
+export interface GradingResult {
+  testResults: TestCaseResult[];
+  passedCount: number;
+  totalCount: number;
+  executionTimeMs: number;
+  score: number;
+  rank: string;
+  feedback: string;
+  strengths: string[];
+  improvements: string[];
+}
+
+/*
+ * Scoring model
+ *
+ *   correctness = 100 * passed / total        (hidden cases count the same as visible ones)
+ *   penalty     = HINT_PENALTY * hintsUsed, capped at MAX_HINT_PENALTY
+ *   score       = max(0, round(correctness - penalty))
+ *
+ * A submission that passes no test case scores 0 regardless of hints. The rank
+ * is the first entry in RANK_THRESHOLDS whose minimum the score reaches.
+ */
+export const HINT_PENALTY = 10;
+export const MAX_HINT_PENALTY = 50;
+
+export const RANK_THRESHOLDS: Array<{ rank: string; minScore: number }> = [
+  { rank: "A+", minScore: 97 },
+  { rank: "A", minScore: 90 },
+  { rank: "B", minScore: 80 },
+  { rank: "C", minScore: 70 },
+  { rank: "D", minScore: 60 },
+  { rank: "F", minScore: 0 },
+];
+
+export function computeScore(passedCount: number, totalCount: number, hintsUsed: number): number {
+  if (totalCount === 0 || passedCount === 0) return 0;
+  const correctness = (100 * passedCount) / totalCount;
+  const penalty = Math.min(Math.max(hintsUsed, 0) * HINT_PENALTY, MAX_HINT_PENALTY);
+  return Math.max(0, Math.round(correctness - penalty));
+}
+
+export function rankForScore(score: number): string {
+  return RANK_THRESHOLDS.find((threshold) => score >= threshold.minScore)!.rank;
+}
+
+function toText(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+// Line endings, trailing whitespace and trailing blank lines are not significant.
+export function normalizeOutput(output: string): string {
+  return output
+    .replace(/\r\n?/g, "\n")
+    .split("\n")
+    .map((line) => line.trimEnd())
+    .join("\n")
+    .replace(/\n+$/, "");
+}
+
+export function getTestCases(challenge: Pick<CodingChallenge, "testCases">): ChallengeTestCase[] {
+  return Array.isArray(challenge.testCases) ? (challenge.testCases as ChallengeTestCase[]) : [];
+}
+
+/** Strips hidden test cases from a challenge before it is sent to a client. */
+export function toPublicChallenge(challenge: CodingChallenge) {
+  const testCases = getTestCases(challenge);
+  return {
+    ...challenge,
+    testCases: testCases.filter((testCase) => !testCase.hidden),
+    hiddenTestCount: testCases.filter((testCase) => testCase.hidden).length,
+  };
+}
+
+export async function gradeSubmission(options: {
+  code: string;
+  language: string;
+  testCases: ChallengeTestCase[];
+  hintsUsed?: number;
+}): Promise<GradingResult> {
+  const testResults: TestCaseResult[] = [];
+
+  for (const [index, testCase] of options.testCases.entries()) {
+    const input = toText(testCase.input);
+    const expected = toText(testCase.expected);
+    const result = await executeCode({
+      code: options.code,
+      language: options.language,
+      stdin: input.endsWith("\n") || input === "" ? input : `${input}\n`,
+    });
+
+    const passed = result.status === "success" && normalizeOutput(result.stdout) === normalizeOutput(expected);
+    const hidden = Boolean(testCase.hidden);
+
+    testResults.push({
+      index,
+      description: testCase.description ?? null,
+      hidden,
+      passed,
+      status: result.status,
+      timeMs: result.executionTime,
+      ...(hidden ? {} : {
+        input,
+        expected,
+        actual: result.stdout,
+        stderr: result.stderr || result.error || "",
+      }),
+    });
+  }
+
+  const passedCount = testResults.filter((result) => result.passed).length;
+  const totalCount = testResults.length;
+  const hintsUsed = options.hintsUsed ?? 0;
+  const score = computeScore(passedCount, totalCount, hintsUsed);
+  const executionTimeMs = testResults.reduce((total, result) => total + result.timeMs, 0);
+
+  return {
+    testResults,
+    passedCount,
+    totalCount,
+    executionTimeMs,
+    score,
+    rank: rankForScore(score),
+    ...summarize(testResults, hintsUsed),
+  };
+}
+
+function summarize(testResults: TestCaseResult[], hintsUsed: number) {
+  const passedCount = testResults.filter((result) => result.passed).length;
+  const failed = testResults.filter((result) => !result.passed);
+  const hiddenFailed = failed.filter((result) => result.hidden).length;
+  const statuses = new Set(failed.map((result) => result.status));
+  const averageTime = testResults.length
+    ? testResults.reduce((total, result) => total + result.timeMs, 0) / testResults.length
+    : 0;
+
+  const strengths: string[] = [];
+  const improvements: string[] = [];
+
+  if (failed.length === 0) {
+    strengths.push("Passes every test case");
+  } else if (passedCount > 0) {
+    strengths.push(`Passes ${passedCount} of ${testResults.length} test cases`);
+  }
+  if (failed.length === 0 && averageTime < 200) {
+    strengths.push("Runs quickly on all inputs");
+  }
+  if (hintsUsed === 0 && passedCount > 0) {
+    strengths.push("Solved without hints");
+  }
+
+  if (statuses.has("timeout") || statuses.has("cpu_limit")) {
+    improvements.push("Some inputs exceeded the time limit; look for a more efficient algorithm");
+  }
+  if (statuses.has("memory_limit")) {
+    improvements.push("Some inputs exceeded the memory limit; reduce memory usage");
+  }
+  if (statuses.has("runtime_error")) {
+    improvements.push("The program crashed on some inputs; check stderr for the error");
+  }
+  if (statuses.has("success")) {
+    improvements.push("Some outputs did not match the expected result; re-check edge cases");
+  }
+  if (hiddenFailed > 0) {
+    improvements.push(`${hiddenFailed} hidden test case${hiddenFailed === 1 ? "" : "s"} failed`);
+  }
+  if (hintsUsed > 0) {
+    improvements.push(`Hints cost ${Math.min(hintsUsed * HINT_PENALTY, MAX_HINT_PENALTY)} points; try the next one without them`);
+  }
+
+  const feedback = failed.length === 0
+    ? `All ${testResults.length} test cases passed.`
+    : `Passed ${passedCount} of ${testResults.length} test cases.`;
+
+  return { feedback, strengths, improvements };
+}
@@ -0,0 +1,56 @@
+import { HttpError } from "./errors";
+
+/**
+ * Where accounts live. Sessions are JWTs issued elsewhere, so passwords and
+ * login emails can only be changed through the provider that issues them.
+ */
+export interface IdentityProvider {
+  readonly name: string;
+  updateUser(userId: string, changes: { email?: string; password?: string }): Promise<void>;
+}
+
+/** Supabase Auth's admin API, authorized with the service role key. */
+export class SupabaseIdentityProvider implements IdentityProvider {
+  readonly name = "supabase";
+
+  constructor(private url: string, private serviceRoleKey: string) {}
+
+  async updateUser(userId: string, changes: { email?: string; password?: string }) {
+    const response = await fetch(`${this.url.replace(/\/$/, "")}/auth/v1/admin/users/${encodeURIComponent(userId)}`, {
+      method: "PUT",
+      headers: {
+        apikey: this.serviceRoleKey,
+        Authorization: `Bearer ${this.serviceRoleKey}`,
+        "Content-Type": "application/json",
+      },
+      // The address was confirmed by our own token, so Supabase need not confirm it again.
+      body: JSON.stringify(changes.email ? { ...changes, email_confirm: true } : changes),
+    });
+    if (response.status === 404) {
+      throw new HttpError(404, "Account not found");
+    }
+    if (!response.ok) {
+      throw new HttpError(502, `Identity provider request failed with status ${response.status}`);
+    }
+  }
+}
+
+function createDefaultProvider(): IdentityProvider {
+  if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    throw new HttpError(503, "Account changes are not configured on this server");
+  }
+  return new SupabaseIdentityProvider(process.env.SUPABASE_URL, process.env.SUPABASE_SERVICE_ROLE_KEY);
+}
+
+let providerFactory: () => IdentityProvider = createDefaultProvider;
+let provider: IdentityProvider | undefined;
+
+export function setIdentityProviderFactory(factory: () => IdentityProvider) {
+  providerFactory = factory;
+  provider = undefined;
+}
+
+export function getIdentityProvider() {
+  provider ??= providerFactory();
+  return provider;
+}
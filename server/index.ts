@@ -1,11 +1,26 @@
 import express, { type Request, Response, NextFunction } from "express";
 import cors from "cors";
 import { registerRoutes } from "./routes";
+import { attachCollaborationServer } from "./collab";
+import { startExpirySweeper } from "./sweeper";
+
+declare global {
+  namespace Express {
+    interface Request {
+      // The unparsed JSON body, kept for webhook signature checks.
+      rawBody?: Buffer;
+    }
+  }
+}
 
 const app = express();
 
 app.use(cors());
-app.use(express.json());
+app.use(express.json({
+  verify: (req, _res, buf) => {
+    (req as Request).rawBody = buf;
+  },
+}));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -42,7 +57,10 @@ app.use((req, res, next) => {
   registerRoutes(app);
 
   const PORT = 5001;
-  app.listen(PORT, "0.0.0.0", () => {
+  const server = app.listen(PORT, "0.0.0.0", () => {
     console.log(`Server running on http://0.0.0.0:${PORT}`);
   });
+
+  attachCollaborationServer(server);
+  startExpirySweeper();
 })();
@@ -0,0 +1,82 @@
+// Maps between the `language` values stored on snippets and project files and
+// file extensions. The first extension listed is the canonical one.
+const LANGUAGE_EXTENSIONS: Record<string, string[]> = {
+  javascript: ["js", "mjs", "cjs", "jsx"],
+  typescript: ["ts", "mts", "cts", "tsx"],
+  python: ["py"],
+  java: ["java"],
+  c: ["c", "h"],
+  cpp: ["cpp", "cc", "cxx", "hpp"],
+  csharp: ["cs"],
+  go: ["go"],
+  rust: ["rs"],
+  ruby: ["rb"],
+  php: ["php"],
+  swift: ["swift"],
+  kotlin: ["kt", "kts"],
+  html: ["html", "htm"],
+  css: ["css"],
+  scss: ["scss"],
+  less: ["less"],
+  json: ["json"],
+  yaml: ["yaml", "yml"],
+  markdown: ["md", "markdown"],
+  sql: ["sql"],
+  shell: ["sh", "bash"],
+  xml: ["xml"],
+  graphql: ["graphql", "gql"],
+  vue: ["vue"],
+  plaintext: ["txt"],
+};
+
+const LANGUAGE_ALIASES: Record<string, string> = {
+  js: "javascript",
+  node: "javascript",
+  ts: "typescript",
+  py: "python",
+  python3: "python",
+  "c++": "cpp",
+  "c#": "csharp",
+  md: "markdown",
+  yml: "yaml",
+  bash: "shell",
+  sh: "shell",
+  text: "plaintext",
+};
+
+const EXTENSION_LANGUAGES = new Map<string, string>();
+for (const [language, extensions] of Object.entries(LANGUAGE_EXTENSIONS)) {
+  for (const extension of extensions) {
+    EXTENSION_LANGUAGES.set(extension, language);
+  }
+}
+
+export function normalizeLanguage(language: string | null | undefined): string | null {
+  if (!language) return null;
+  const key = language.trim().toLowerCase();
+  return LANGUAGE_ALIASES[key] ?? key;
+}
+
+/** Whether `language` is one we know, under its own name or an alias. */
+export function isKnownLanguage(language: string) {
+  return Object.hasOwn(LANGUAGE_EXTENSIONS, normalizeLanguage(language)!);
+}
+
+export function languageForPath(path: string): string | null {
+  const name = path.split("/").pop() ?? "";
+  const dot = name.lastIndexOf(".");
+  if (dot <= 0) return null;
+  return EXTENSION_LANGUAGES.get(name.slice(dot + 1).toLowerCase()) ?? null;
+}
+
+export function extensionForLanguage(language: string | null | undefined): string {
+  const normalized = normalizeLanguage(language);
+  return (normalized && LANGUAGE_EXTENSIONS[normalized]?.[0]) || "txt";
+}
+
+/** The normalized language and every alias that normalizes to it, for matching stored values. */
+export function languageVariants(language: string): string[] {
+  const normalized = normalizeLanguage(language)!;
+  const aliases = Object.keys(LANGUAGE_ALIASES).filter((alias) => LANGUAGE_ALIASES[alias] === normalized);
+  return [normalized, ...aliases];
+}
@@ -0,0 +1,174 @@
+import { and, eq, gte, inArray, isNotNull, sql, type SQL } from "drizzle-orm";
+import { db } from "./db";
+import {
+  challengeSubmissions,
+  codingChallenges,
+  profiles,
+  type LeaderboardQuery,
+  type LeaderboardWindow,
+} from "@shared/schema";
+import { HttpError } from "./errors";
+import { isKnownLanguage, languageVariants, normalizeLanguage } from "./languages";
+import { STATS_TIMEZONE } from "./stats";
+
+const DEFAULT_PAGE_SIZE = 50;
+// Rankings are recomputed at most this often per window and filter.
+const CACHE_TTL_MS = (Number(process.env.LEADERBOARD_CACHE_SECONDS) || 60) * 1000;
+
+export interface LeaderboardEntry {
+  rank: number;
+  userId: string;
+  username: string | null;
+  avatarUrl: string | null;
+  points: number;
+  challenges: number;
+  submissions: number;
+}
+
+interface Ranking {
+  since: Date | null;
+  entries: LeaderboardEntry[];
+  positions: Map<string, number>;
+  generatedAt: Date;
+}
+
+const cache = new Map<string, { expiresAt: number; ranking: Promise<Ranking> }>();
+
+// When the current month or week began in STATS_TIMEZONE.
+async function windowStart(window: LeaderboardWindow) {
+  if (window === "all") return null;
+  const result = await db.execute(sql`
+    select extract(epoch from date_trunc(${window}, timezone(${STATS_TIMEZONE}, now())) at time zone ${STATS_TIMEZONE}) as epoch
+  `);
+  return new Date(Number(result.rows[0].epoch) * 1000);
+}
+
+/*
+ * Points work as they do for userPracticeStats.totalPoints: the best score on
+ * each challenge, summed. Within a window only submissions made in it count,
+ * so a week's points are what was earned that week.
+ */
+async function computeRanking(window: LeaderboardWindow, language?: string, difficulty?: string): Promise<Ranking> {
+  const since = await windowStart(window);
+
+  const conditions: (SQL | undefined)[] = [
+    isNotNull(challengeSubmissions.userId),
+    since ? gte(challengeSubmissions.submittedAt, since) : undefined,
+    language ? inArray(sql`lower(${challengeSubmissions.language})`, languageVariants(language)) : undefined,
+    difficulty ? eq(codingChallenges.difficulty, difficulty) : undefined,
+  ];
+
+  const best = db.$with("best").as(
+    db
+      .select({
+        userId: sql<string>`${challengeSubmissions.userId}`.as("user_id"),
+        bestScore: sql<number>`max(${challengeSubmissions.score})`.as("best_score"),
+        submissions: sql<number>`count(*)`.as("submissions"),
+      })
+      .from(challengeSubmissions)
+      .innerJoin(codingChallenges, eq(codingChallenges.id, challengeSubmissions.challengeId))
+      .where(and(...conditions))
+      .groupBy(challengeSubmissions.userId, challengeSubmissions.challengeId),
+  );
+  const totals = db.$with("totals").as(
+    db
+      .with(best)
+      .select({
+        userId: best.userId,
+        points: sql<number>`sum(${best.bestScore})::int`.as("points"),
+        challenges: sql<number>`count(*)::int`.as("challenges"),
+        submissions: sql<number>`sum(${best.submissions})::int`.as("total_submissions"),
+      })
+      .from(best)
+      .groupBy(best.userId),
+  );
+
+  const rows = await db
+    .with(best, totals)
+    .select({
+      rank: sql<number>`dense_rank() over (order by ${totals.points} desc)::int`,
+      userId: totals.userId,
+      username: profiles.username,
+      avatarUrl: profiles.avatarUrl,
+      points: totals.points,
+      challenges: totals.challenges,
+      submissions: totals.submissions,
+    })
+    .from(totals)
+    .leftJoin(profiles, sql`${profiles.id} = ${totals.userId}`)
+    .orderBy(sql`${totals.points} desc`, totals.userId);
+
+  const entries = rows.map((row) => ({
+    ...row,
+    rank: Number(row.rank),
+    points: Number(row.points),
+    challenges: Number(row.challenges),
+    submissions: Number(row.submissions),
+  }));
+  return {
+    since,
+    entries,
+    positions: new Map(entries.map((entry, index) => [entry.userId, index])),
+    generatedAt: new Date(),
+  };
+}
+
+async function getRanking(query: LeaderboardQuery) {
+  if (query.language && !isKnownLanguage(query.language)) {
+    throw new HttpError(400, `Unknown language "${query.language}"`);
+  }
+  const window = query.window ?? "all";
+  const language = normalizeLanguage(query.language) ?? undefined;
+  const key = JSON.stringify([window, language ?? null, query.difficulty ?? null]);
+  const now = Date.now();
+  const cached = cache.get(key);
+  if (cached && cached.expiresAt > now) return cached.ranking;
+
+  // Keys only come from known windows, languages and difficulties; dropping
+  // expired entries keeps the cache to the combinations in recent use.
+  for (const [staleKey, entry] of cache) {
+    if (entry.expiresAt <= now) cache.delete(staleKey);
+  }
+
+  // Concurrent requests share one computation; a failed one is not cached.
+  const ranking = computeRanking(window, language, query.difficulty);
+  cache.set(key, { expiresAt: now + CACHE_TTL_MS, ranking });
+  ranking.catch(() => {
+    if (cache.get(key)?.ranking === ranking) cache.delete(key);
+  });
+  return ranking;
+}
+
+function describe(query: LeaderboardQuery, ranking: Ranking) {
+  return {
+    window: query.window ?? "all",
+    language: normalizeLanguage(query.language),
+    difficulty: query.difficulty ?? null,
+    since: ranking.since,
+    total: ranking.entries.length,
+    generatedAt: ranking.generatedAt,
+  };
+}
+
+export async function getLeaderboard(query: LeaderboardQuery) {
+  const ranking = await getRanking(query);
+  const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+  const offset = query.offset ?? 0;
+  return {
+    ...describe(query, ranking),
+    limit,
+    offset,
+    entries: ranking.entries.slice(offset, offset + limit),
+  };
+}
+
+/** The user's entry and the ones just above and below it; entry is null if unranked. */
+export async function getLeaderboardPosition(query: LeaderboardQuery, userId: string, around = 2) {
+  const ranking = await getRanking(query);
+  const index = ranking.positions.get(userId);
+  return {
+    ...describe(query, ranking),
+    entry: index === undefined ? null : ranking.entries[index],
+    nearby: index === undefined ? [] : ranking.entries.slice(Math.max(0, index - around), index + around + 1),
+  };
+}
@@ -0,0 +1,113 @@
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import { nanoid } from "nanoid";
+import nodemailer, { type Transporter } from "nodemailer";
+import { HttpError } from "./errors";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface Mailer {
+  readonly name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+const DEFAULT_FROM = "Coderfile <no-reply@localhost>";
+
+/** Delivers through an SMTP server, configured by SMTP_URL or SMTP_HOST and friends. */
+export class SmtpMailer implements Mailer {
+  readonly name = "smtp";
+  private transport: Transporter;
+
+  constructor(options: string | { host: string; port: number; secure: boolean; user?: string; pass?: string }, private from = DEFAULT_FROM) {
+    this.transport = typeof options === "string"
+      ? nodemailer.createTransport(options)
+      : nodemailer.createTransport({
+        host: options.host,
+        port: options.port,
+        secure: options.secure,
+        auth: options.user ? { user: options.user, pass: options.pass } : undefined,
+      });
+  }
+
+  async send(message: MailMessage) {
+    try {
+      await this.transport.sendMail({ from: this.from, ...message });
+    } catch (error) {
+      console.error("Error sending email:", error);
+      throw new HttpError(502, "Email could not be sent");
+    }
+  }
+}
+
+/**
+ * Prints each message to the server log, for local development. Links in
+ * these emails are live credentials, so this is only used when MAIL_DRIVER
+ * asks for it.
+ */
+export class ConsoleMailer implements Mailer {
+  readonly name = "console";
+
+  async send(message: MailMessage) {
+    console.log(`Email to ${message.to}: ${message.subject}\n${message.text}`);
+  }
+}
+
+/** Writes each message as a JSON file, so tests can read what would have been sent. */
+export class FileMailer implements Mailer {
+  readonly name = "file";
+
+  constructor(private directory: string) {}
+
+  async send(message: MailMessage) {
+    await mkdir(this.directory, { recursive: true });
+    const file = path.join(this.directory, `${Date.now()}-${nanoid(8)}.json`);
+    await writeFile(file, JSON.stringify({ ...message, sentAt: new Date() }, null, 2));
+  }
+}
+
+function createDefaultMailer(): Mailer {
+  const from = process.env.MAIL_FROM || DEFAULT_FROM;
+  const driver = process.env.MAIL_DRIVER || (process.env.SMTP_URL || process.env.SMTP_HOST ? "smtp" : undefined);
+  switch (driver) {
+    case undefined:
+      throw new Error("Email is not configured: set SMTP_URL or SMTP_HOST, or MAIL_DRIVER=console for local development");
+    case "smtp":
+      if (process.env.SMTP_URL) {
+        return new SmtpMailer(process.env.SMTP_URL, from);
+      }
+      if (!process.env.SMTP_HOST) {
+        throw new Error("SMTP_URL or SMTP_HOST must be set when MAIL_DRIVER is smtp");
+      }
+      return new SmtpMailer({
+        host: process.env.SMTP_HOST,
+        port: Number(process.env.SMTP_PORT) || 587,
+        secure: process.env.SMTP_SECURE === "true",
+        user: process.env.SMTP_USER,
+        pass: process.env.SMTP_PASS,
+      }, from);
+    case "file":
+      return new FileMailer(process.env.MAIL_OUTBOX_DIR || path.resolve("data", "outbox"));
+    case "console":
+      return new ConsoleMailer();
+    default:
+      throw new Error(`Unknown MAIL_DRIVER "${driver}"`);
+  }
+}
+
+let mailerFactory: () => Mailer = createDefaultMailer;
+let mailer: Mailer | undefined;
+
+export function setMailerFactory(factory: () => Mailer) {
+  mailerFactory = factory;
+  mailer = undefined;
+}
+
+export function getMailer() {
+  mailer ??= mailerFactory();
+  return mailer;
+}
@@ -0,0 +1,115 @@
+import { z } from "zod";
+
+// Operational transformation for plain-text documents. Positions are UTF-16
+// offsets, matching JavaScript string indices and Monaco's model offsets.
+// Operations within one list are applied in order, each against the document
+// produced by the previous one.
+
+export const textOpSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("insert"), position: z.number().int().min(0), text: z.string().min(1) }),
+  z.object({ type: z.literal("delete"), position: z.number().int().min(0), length: z.number().int().min(1) }),
+]);
+
+export type TextOp = z.infer<typeof textOpSchema>;
+
+export class OperationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OperationError";
+  }
+}
+
+export function applyOps(content: string, ops: TextOp[]): string {
+  let result = content;
+  for (const op of ops) {
+    if (op.position > result.length) {
+      throw new OperationError(`Position ${op.position} is past the end of the document (${result.length})`);
+    }
+    if (op.type === "insert") {
+      result = result.slice(0, op.position) + op.text + result.slice(op.position);
+    } else {
+      if (op.position + op.length > result.length) {
+        throw new OperationError(`Delete of ${op.length} at ${op.position} runs past the end of the document`);
+      }
+      result = result.slice(0, op.position) + result.slice(op.position + op.length);
+    }
+  }
+  return result;
+}
+
+/**
+ * Rewrites `op` so it can be applied after `applied`. When both insert at the
+ * same position, `appliedFirst` decides which text ends up on the left.
+ */
+function transformOp(op: TextOp, applied: TextOp, appliedFirst: boolean): TextOp[] {
+  if (applied.type === "insert") {
+    const shift = applied.text.length;
+    if (op.type === "insert") {
+      const shifted = applied.position < op.position || (applied.position === op.position && appliedFirst);
+      return [shifted ? { ...op, position: op.position + shift } : op];
+    }
+    if (applied.position <= op.position) {
+      return [{ ...op, position: op.position + shift }];
+    }
+    if (applied.position >= op.position + op.length) {
+      return [op];
+    }
+    // The insert landed inside the range being deleted: delete around it.
+    const before = applied.position - op.position;
+    return [
+      { type: "delete", position: op.position, length: before },
+      { type: "delete", position: op.position + shift, length: op.length - before },
+    ];
+  }
+
+  const appliedEnd = applied.position + applied.length;
+  if (op.type === "insert") {
+    if (op.position <= applied.position) return [op];
+    if (op.position >= appliedEnd) return [{ ...op, position: op.position - applied.length }];
+    return [{ ...op, position: applied.position }];
+  }
+
+  const opEnd = op.position + op.length;
+  if (opEnd <= applied.position) return [op];
+  if (op.position >= appliedEnd) return [{ ...op, position: op.position - applied.length }];
+
+  const overlap = Math.min(opEnd, appliedEnd) - Math.max(op.position, applied.position);
+  const length = op.length - overlap;
+  return length > 0 ? [{ type: "delete", position: Math.min(op.position, applied.position), length }] : [];
+}
+
+/**
+ * Transforms two operation lists made against the same document. Returns
+ * `[opsAfterApplied, appliedAfterOps]`; `applied` wins ties, so it is the side
+ * that has already been committed.
+ */
+export function transform(ops: TextOp[], applied: TextOp[]): [TextOp[], TextOp[]] {
+  if (ops.length === 0 || applied.length === 0) return [ops, applied];
+
+  if (ops.length > 1) {
+    const [head, appliedAfterHead] = transform([ops[0]], applied);
+    const [tail, appliedAfterAll] = transform(ops.slice(1), appliedAfterHead);
+    return [[...head, ...tail], appliedAfterAll];
+  }
+
+  if (applied.length > 1) {
+    const [opsAfterHead, head] = transform(ops, [applied[0]]);
+    const [opsAfterAll, tail] = transform(opsAfterHead, applied.slice(1));
+    return [opsAfterAll, [...head, ...tail]];
+  }
+
+  return [transformOp(ops[0], applied[0], true), transformOp(applied[0], ops[0], false)];
+}
+
+/** Maps a cursor offset through a list of operations. */
+export function transformPosition(position: number, ops: TextOp[]): number {
+  let result = position;
+  for (const op of ops) {
+    if (op.type === "insert") {
+      if (op.position <= result) result += op.text.length;
+    } else if (op.position < result) {
+      result -= Math.min(op.length, result - op.position);
+    }
+  }
+  return result;
+}
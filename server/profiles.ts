@@ -0,0 +1,281 @@
+import { randomUUID } from "crypto";
+import { and, count, desc, eq, gte, ne, sql } from "drizzle-orm";
+import sharp from "sharp";
+import { db } from "./db";
+import {
+  challengeSubmissions,
+  codeSnippets,
+  codingChallenges,
+  profiles,
+  userChallengeHistory,
+  userPracticeStats,
+} from "@shared/schema";
+import { sniffContentType, type Upload } from "./attachments";
+import type { AuthUser } from "./auth";
+import { HttpError } from "./errors";
+import { isListed } from "./gallery";
+import { RANK_THRESHOLDS } from "./grading";
+import { withEffectiveStreak } from "./stats";
+import { getStorage } from "./storage";
+
+const USERNAME_PATTERN = /^[a-z0-9](?:[a-z0-9_-]{1,28})[a-z0-9]$/;
+// Route names, roles and words that could pass for an official account.
+const RESERVED_USERNAMES = new Set([
+  "about", "account", "admin", "administrator", "anonymous", "api", "coderfile", "explore", "help",
+  "login", "logout", "me", "moderator", "new", "null", "official", "privacy", "profile", "register",
+  "root", "security", "settings", "signup", "staff", "support", "system", "terms", "undefined", "www",
+]);
+
+export const MAX_AVATAR_BYTES = Number(process.env.MAX_AVATAR_BYTES) || 2 * 1024 * 1024;
+const AVATAR_SIZE = 256;
+const PROFILE_SNIPPETS = 20;
+const PROFILE_ACTIVITY = 20;
+const DEFAULT_SEARCH_SIZE = 10;
+// A challenge counts as solved once its best score earns a passing rank.
+const SOLVED_MIN_SCORE = Math.min(...RANK_THRESHOLDS.filter((threshold) => threshold.rank !== "F").map((threshold) => threshold.minScore));
+
+/** Lowercases a username and checks it against the naming rules. */
+export function normalizeUsername(raw: string) {
+  const username = raw.trim().toLowerCase();
+  if (username.length < 3 || username.length > 30) {
+    throw new HttpError(400, "Usernames must be 3 to 30 characters long");
+  }
+  if (!USERNAME_PATTERN.test(username)) {
+    throw new HttpError(400, "Usernames may use letters, digits, - and _, and must start and end with a letter or digit");
+  }
+  if (RESERVED_USERNAMES.has(username)) {
+    throw new HttpError(400, `"${username}" is reserved`);
+  }
+  return username;
+}
+
+const publicColumns = {
+  id: profiles.id,
+  username: profiles.username,
+  avatarUrl: profiles.avatarUrl,
+  createdAt: profiles.createdAt,
+};
+
+/** Usernames are stored lowercased, so lookups ignore case. */
+export async function findByUsername(username: string) {
+  const [profile] = await db
+    .select(publicColumns)
+    .from(profiles)
+    .where(sql`lower(${profiles.username}) = ${username.toLowerCase()}`)
+    .limit(1);
+  return profile ?? null;
+}
+
+export async function getOwnProfile(user: AuthUser) {
+  const [profile] = await db.select(publicColumns).from(profiles).where(eq(profiles.id, user.id)).limit(1);
+  return profile ?? { id: user.id, username: null, avatarUrl: null, createdAt: null };
+}
+
+export async function checkUsername(raw: string, userId?: string) {
+  let username: string;
+  try {
+    username = normalizeUsername(raw);
+  } catch (error) {
+    if (error instanceof HttpError) return { username: raw, available: false, reason: error.message };
+    throw error;
+  }
+  const holder = await findByUsername(username);
+  return holder && holder.id !== userId
+    ? { username, available: false, reason: "This username is taken" }
+    : { username, available: true };
+}
+
+/** Gives the user `raw` as their username, creating their profile if needed. */
+export async function claimUsername(user: AuthUser, raw: string) {
+  const username = normalizeUsername(raw);
+
+  try {
+    return await db.transaction(async (tx) => {
+      // Serializes claims on one name; the unique index backs this up.
+      await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${`username:${username}`}))`);
+      const [holder] = await tx
+        .select({ id: profiles.id })
+        .from(profiles)
+        .where(and(sql`lower(${profiles.username}) = ${username}`, ne(profiles.id, user.id)))
+        .limit(1);
+      if (holder) {
+        throw new HttpError(409, "This username is taken");
+      }
+
+      const [profile] = await tx
+        .insert(profiles)
+        .values({ id: user.id, username })
+        .onConflictDoUpdate({ target: profiles.id, set: { username } })
+        .returning(publicColumns);
+      return profile;
+    });
+  } catch (error: any) {
+    if (error?.code === "23505" || error?.cause?.code === "23505") {
+      throw new HttpError(409, "This username is taken");
+    }
+    throw error;
+  }
+}
+
+/** Stores a square WebP copy of an uploaded image as the user's avatar. */
+export async function setAvatar(user: AuthUser, upload: Upload) {
+  const contentType = sniffContentType(upload.data, upload.declaredType);
+  if (!contentType?.startsWith("image/")) {
+    throw new HttpError(415, "Avatars must be PNG, JPEG, GIF or WebP images");
+  }
+  let image: Buffer;
+  try {
+    image = await sharp(upload.data, { animated: false })
+      .rotate()
+      .resize(AVATAR_SIZE, AVATAR_SIZE, { fit: "cover" })
+      .webp({ quality: 85 })
+      .toBuffer();
+  } catch {
+    throw new HttpError(415, "The image could not be decoded");
+  }
+
+  const version = randomUUID();
+  const avatarKey = `avatars/${user.id}/${version}.webp`;
+  const avatarUrl = `/api/users/${user.id}/avatar?v=${version}`;
+  const storage = getStorage();
+  const [previous] = await db.select({ avatarKey: profiles.avatarKey }).from(profiles).where(eq(profiles.id, user.id));
+
+  await storage.put(avatarKey, image, "image/webp");
+  try {
+    const [profile] = await db
+      .insert(profiles)
+      .values({ id: user.id, avatarKey, avatarUrl })
+      .onConflictDoUpdate({ target: profiles.id, set: { avatarKey, avatarUrl } })
+      .returning(publicColumns);
+    if (previous?.avatarKey) {
+      await storage.delete(previous.avatarKey).catch((error) => console.error("Error deleting old avatar:", error));
+    }
+    return profile;
+  } catch (error) {
+    await storage.delete(avatarKey).catch(() => {});
+    throw error;
+  }
+}
+
+export async function removeAvatar(user: AuthUser) {
+  const [previous] = await db.select({ avatarKey: profiles.avatarKey }).from(profiles).where(eq(profiles.id, user.id));
+  await db.update(profiles).set({ avatarKey: null, avatarUrl: null }).where(eq(profiles.id, user.id));
+  if (previous?.avatarKey) {
+    await getStorage().delete(previous.avatarKey);
+  }
+}
+
+export async function openAvatar(userId: string) {
+  const [profile] = await db.select({ avatarKey: profiles.avatarKey }).from(profiles).where(eq(profiles.id, userId));
+  if (!profile?.avatarKey) {
+    throw new HttpError(404, "Avatar not found");
+  }
+  return getStorage().get(profile.avatarKey);
+}
+
+/** Profiles whose username starts with `prefix`, alphabetically. */
+export async function searchProfiles(prefix: string, limit = DEFAULT_SEARCH_SIZE) {
+  const normalized = prefix.trim().toLowerCase();
+  if (!normalized) return [];
+  const pattern = `${normalized.replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
+
+  return db
+    .select({ id: profiles.id, username: profiles.username, avatarUrl: profiles.avatarUrl })
+    .from(profiles)
+    .where(sql`${profiles.username} like ${pattern}`)
+    .orderBy(profiles.username)
+    .limit(limit);
+}
+
+/**
+ * Everything shown on a public profile page. Only gallery snippets appear,
+ * and activity never includes submitted code.
+ */
+export async function getPublicProfile(username: string) {
+  const profile = await findByUsername(username);
+  if (!profile) {
+    throw new HttpError(404, "Profile not found");
+  }
+  const ownSnippets = and(eq(codeSnippets.ownerId, profile.id), isListed())!;
+
+  const [[stats], snippets, [snippetTotal], solved, submissions] = await Promise.all([
+    db
+      .select({
+        totalChallenges: userPracticeStats.totalChallenges,
+        totalSubmissions: userPracticeStats.totalSubmissions,
+        averageScore: userPracticeStats.averageScore,
+        bestRank: userPracticeStats.bestRank,
+        totalPoints: userPracticeStats.totalPoints,
+        currentStreak: userPracticeStats.currentStreak,
+        longestStreak: userPracticeStats.longestStreak,
+        lastSubmissionDate: userPracticeStats.lastSubmissionDate,
+        languagesPracticed: userPracticeStats.languagesPracticed,
+        difficultyBreakdown: userPracticeStats.difficultyBreakdown,
+      })
+      .from(userPracticeStats)
+      .where(eq(userPracticeStats.userId, profile.id)),
+    db
+      .select({
+        id: codeSnippets.id,
+        title: codeSnippets.title,
+        description: codeSnippets.description,
+        language: codeSnippets.language,
+        shareToken: codeSnippets.shareToken,
+        viewCount: codeSnippets.viewCount,
+        forkCount: codeSnippets.forkCount,
+        createdAt: codeSnippets.createdAt,
+      })
+      .from(codeSnippets)
+      .where(ownSnippets)
+      .orderBy(desc(codeSnippets.createdAt))
+      .limit(PROFILE_SNIPPETS),
+    db.select({ value: count() }).from(codeSnippets).where(ownSnippets),
+    db
+      .select({
+        challengeId: codingChallenges.id,
+        title: codingChallenges.title,
+        difficulty: codingChallenges.difficulty,
+        language: codingChallenges.language,
+        bestScore: userChallengeHistory.bestScore,
+        attempts: userChallengeHistory.attempts,
+        lastAttempted: userChallengeHistory.lastAttempted,
+      })
+      .from(userChallengeHistory)
+      .innerJoin(codingChallenges, eq(codingChallenges.id, userChallengeHistory.challengeId))
+      .where(and(eq(userChallengeHistory.userId, profile.id), gte(userChallengeHistory.bestScore, SOLVED_MIN_SCORE)))
+      .orderBy(desc(userChallengeHistory.lastAttempted)),
+    db
+      .select({
+        challengeId: codingChallenges.id,
+        title: codingChallenges.title,
+        score: challengeSubmissions.score,
+        rank: challengeSubmissions.rank,
+        at: challengeSubmissions.submittedAt,
+      })
+      .from(challengeSubmissions)
+      .innerJoin(codingChallenges, eq(codingChallenges.id, challengeSubmissions.challengeId))
+      .where(eq(challengeSubmissions.userId, profile.id))
+      .orderBy(desc(challengeSubmissions.submittedAt))
+      .limit(PROFILE_ACTIVITY),
+  ]);
+
+  const activity = [
+    ...submissions.map((submission) => ({ type: "submission" as const, ...submission })),
+    ...snippets.map((snippet) => ({
+      type: "snippet" as const,
+      title: snippet.title,
+      shareToken: snippet.shareToken,
+      at: snippet.createdAt,
+    })),
+  ]
+    .sort((a, b) => b.at.getTime() - a.at.getTime())
+    .slice(0, PROFILE_ACTIVITY);
+
+  return {
+    ...profile,
+    stats: stats ? withEffectiveStreak(stats) : null,
+    snippets: { total: snippetTotal.value, items: snippets },
+    solvedChallenges: solved,
+    activity,
+  };
+}
@@ -0,0 +1,316 @@
+import { and, eq, or, sql } from "drizzle-orm";
+import { db } from "./db";
+import { projectFiles, projects, type ProjectFile, type UpdateProjectFileRequest } from "@shared/schema";
+import { HttpError } from "./errors";
+import { languageForPath } from "./languages";
+
+export type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export type ProjectFileType = "file" | "folder";
+
+const MAX_NAME_LENGTH = 255;
+
+export function validateFileName(name: unknown): string {
+  if (typeof name !== "string" || name.trim() === "") {
+    throw new HttpError(400, "A file name is required");
+  }
+  const trimmed = name.trim();
+  if (trimmed.length > MAX_NAME_LENGTH) {
+    throw new HttpError(400, `File names are limited to ${MAX_NAME_LENGTH} characters`);
+  }
+  if (trimmed === "." || trimmed === ".." || /[/\\\u0000-\u001f]/.test(trimmed)) {
+    throw new HttpError(400, `"${trimmed}" is not a valid file name`);
+  }
+  return trimmed;
+}
+
+function joinPath(parentPath: string | null, name: string) {
+  return parentPath ? `${parentPath}/${name}` : name;
+}
+
+// Serializes tree changes per project so path checks and rewrites cannot race.
+export async function lockProjectTree(tx: Transaction, projectId: string) {
+  await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${`project-files:${projectId}`}))`);
+}
+
+function inSubtree(path: string) {
+  return or(
+    eq(projectFiles.path, path),
+    sql`left(${projectFiles.path}, ${path.length + 1}) = ${`${path}/`}`,
+  );
+}
+
+async function findNode(tx: Transaction, projectId: string, fileId: string) {
+  const [node] = await tx
+    .select()
+    .from(projectFiles)
+    .where(and(eq(projectFiles.projectId, projectId), eq(projectFiles.id, fileId)))
+    .limit(1);
+  return node;
+}
+
+async function resolveParent(tx: Transaction, projectId: string, parentFolderId: string | null | undefined) {
+  if (!parentFolderId) return null;
+
+  const parent = await findNode(tx, projectId, parentFolderId);
+  if (!parent) {
+    throw new HttpError(404, "Parent folder not found");
+  }
+  if (parent.type !== "folder") {
+    throw new HttpError(400, `"${parent.path}" is a file, not a folder`);
+  }
+  return parent;
+}
+
+async function assertPathFree(tx: Transaction, projectId: string, path: string) {
+  const [existing] = await tx
+    .select({ path: projectFiles.path })
+    .from(projectFiles)
+    .where(and(eq(projectFiles.projectId, projectId), inSubtree(path)))
+    .limit(1);
+
+  if (existing) {
+    throw new HttpError(409, `"${path}" already exists`);
+  }
+}
+
+async function touchProject(tx: Transaction, projectId: string) {
+  await tx.update(projects).set({ updatedAt: new Date() }).where(eq(projects.id, projectId));
+}
+
+export async function createProjectFile(projectId: string, input: {
+  name: unknown;
+  type: unknown;
+  parentFolderId?: string | null;
+  content?: string | null;
+  language?: string | null;
+}): Promise<ProjectFile> {
+  const name = validateFileName(input.name);
+  if (input.type !== "file" && input.type !== "folder") {
+    throw new HttpError(400, 'type must be "file" or "folder"');
+  }
+  const type: ProjectFileType = input.type;
+
+  return db.transaction(async (tx) => {
+    await lockProjectTree(tx, projectId);
+    const parent = await resolveParent(tx, projectId, input.parentFolderId);
+    const path = joinPath(parent?.path ?? null, name);
+    await assertPathFree(tx, projectId, path);
+
+    const [created] = await tx
+      .insert(projectFiles)
+      .values({
+        projectId,
+        parentFolderId: parent?.id ?? null,
+        name,
+        type,
+        path,
+        content: type === "file" ? input.content ?? "" : null,
+        language: type === "file" ? input.language ?? languageForPath(path) : null,
+      })
+      .returning();
+
+    await touchProject(tx, projectId);
+    return created;
+  });
+}
+
+// Renames and/or moves a node. Moving a folder rewrites the path of every
+// descendant.
+async function moveNode(tx: Transaction, projectId: string, node: ProjectFile, input: {
+  name?: unknown;
+  parentFolderId?: string | null;
+}) {
+  const name = input.name === undefined ? node.name : validateFileName(input.name);
+  const parentFolderId = input.parentFolderId === undefined ? node.parentFolderId : input.parentFolderId;
+  const parent = await resolveParent(tx, projectId, parentFolderId);
+
+  if (parent && node.type === "folder" && (parent.id === node.id || parent.path.startsWith(`${node.path}/`))) {
+    throw new HttpError(400, `Cannot move "${node.path}" into itself`);
+  }
+
+  const path = joinPath(parent?.path ?? null, name);
+  if (path === node.path) {
+    return node;
+  }
+  await assertPathFree(tx, projectId, path);
+
+  const [moved] = await tx
+    .update(projectFiles)
+    .set({
+      name,
+      path,
+      parentFolderId: parent?.id ?? null,
+      language: node.type === "file" && name !== node.name ? languageForPath(path) ?? node.language : node.language,
+      updatedAt: new Date(),
+    })
+    .where(eq(projectFiles.id, node.id))
+    .returning();
+
+  if (node.type === "folder") {
+    const oldPrefix = `${node.path}/`;
+    await tx
+      .update(projectFiles)
+      .set({
+        path: sql`${`${path}/`} || substr(${projectFiles.path}, ${oldPrefix.length + 1})`,
+        updatedAt: new Date(),
+      })
+      .where(and(
+        eq(projectFiles.projectId, projectId),
+        sql`left(${projectFiles.path}, ${oldPrefix.length}) = ${oldPrefix}`,
+      ));
+  }
+  return moved;
+}
+
+/**
+ * Renames, moves and/or edits a file or folder. Everything asked for is
+ * applied in one transaction, so a failed move leaves the content alone too.
+ */
+export async function updateProjectFile(projectId: string, fileId: string, input: UpdateProjectFileRequest): Promise<ProjectFile> {
+  const editsContent = input.content !== undefined || input.language !== undefined;
+
+  return db.transaction(async (tx) => {
+    await lockProjectTree(tx, projectId);
+    const node = await findNode(tx, projectId, fileId);
+    if (!node) {
+      throw new HttpError(404, "File not found");
+    }
+    if (editsContent && node.type !== "file") {
+      throw new HttpError(400, "Folders have no content");
+    }
+
+    let file = node;
+    if (input.name !== undefined || input.parentFolderId !== undefined) {
+      file = await moveNode(tx, projectId, node, input);
+    }
+    if (editsContent) {
+      [file] = await tx
+        .update(projectFiles)
+        .set({ content: input.content, language: input.language, updatedAt: new Date() })
+        .where(eq(projectFiles.id, node.id))
+        .returning();
+    }
+
+    if (file !== node) await touchProject(tx, projectId);
+    return file;
+  });
+}
+
+/** Deletes a file, or a folder together with everything under it. */
+export async function deleteProjectFile(projectId: string, fileId: string) {
+  return db.transaction(async (tx) => {
+    await lockProjectTree(tx, projectId);
+    const node = await findNode(tx, projectId, fileId);
+    if (!node) {
+      throw new HttpError(404, "File not found");
+    }
+
+    const deleted = await tx
+      .delete(projectFiles)
+      .where(and(eq(projectFiles.projectId, projectId), inSubtree(node.path)))
+      .returning({ id: projectFiles.id });
+
+    await touchProject(tx, projectId);
+    return { deleted: deleted.length };
+  });
+}
+
+/** Splits "a/b/c.ts" into validated segments, rejecting empty and dot segments. */
+export function splitPath(path: string): string[] {
+  const segments = path.split("/").filter((segment) => segment !== "");
+  if (segments.length === 0) {
+    throw new HttpError(400, "Path is empty");
+  }
+  return segments.map(validateFileName);
+}
+
+/**
+ * Returns the folder at `folderPath`, creating it and any missing ancestors.
+ * `folders` caches path -> folder id across calls within one transaction.
+ */
+export async function ensureFolder(
+  tx: Transaction,
+  projectId: string,
+  folderPath: string | null,
+  folders: Map<string, string>,
+): Promise<string | null> {
+  if (!folderPath) return null;
+  const cached = folders.get(folderPath);
+  if (cached) return cached;
+
+  const segments = splitPath(folderPath);
+  const name = segments[segments.length - 1];
+  const parentPath = segments.length > 1 ? segments.slice(0, -1).join("/") : null;
+  const parentFolderId = await ensureFolder(tx, projectId, parentPath, folders);
+
+  const [existing] = await tx
+    .select()
+    .from(projectFiles)
+    .where(and(eq(projectFiles.projectId, projectId), eq(projectFiles.path, folderPath)))
+    .limit(1);
+
+  if (existing) {
+    if (existing.type !== "folder") {
+      throw new HttpError(409, `"${folderPath}" is a file, not a folder`);
+    }
+    folders.set(folderPath, existing.id);
+    return existing.id;
+  }
+
+  const [created] = await tx
+    .insert(projectFiles)
+    .values({ projectId, parentFolderId, name, type: "folder", path: folderPath })
+    .returning({ id: projectFiles.id });
+  folders.set(folderPath, created.id);
+  return created.id;
+}
+
+/** Creates or overwrites the file at `path`, creating parent folders as needed. */
+export async function writeFileAtPath(
+  tx: Transaction,
+  projectId: string,
+  path: string,
+  values: { content: string; language?: string | null; githubSha?: string | null },
+  folders: Map<string, string>,
+): Promise<ProjectFile> {
+  const segments = splitPath(path);
+  const normalized = segments.join("/");
+  const name = segments[segments.length - 1];
+  const parentFolderId = await ensureFolder(
+    tx,
+    projectId,
+    segments.length > 1 ? segments.slice(0, -1).join("/") : null,
+    folders,
+  );
+  const language = values.language ?? languageForPath(normalized);
+
+  const [file] = await tx
+    .insert(projectFiles)
+    .values({
+      projectId,
+      parentFolderId,
+      name,
+      type: "file",
+      path: normalized,
+      content: values.content,
+      language,
+      githubSha: values.githubSha,
+    })
+    .onConflictDoUpdate({
+      target: [projectFiles.projectId, projectFiles.path],
+      set: {
+        content: values.content,
+        language,
+        githubSha: values.githubSha,
+        updatedAt: new Date(),
+      },
+      where: eq(projectFiles.type, "file"),
+    })
+    .returning();
+
+  if (!file) {
+    throw new HttpError(409, `"${normalized}" is a folder, not a file`);
+  }
+  return file;
+}
@@ -0,0 +1,176 @@
+import { createHmac, randomBytes, scrypt, timingSafeEqual, type ScryptOptions } from "crypto";
+import type { Request } from "express";
+import { and, count, eq, gt, lte, min, sql } from "drizzle-orm";
+import { db } from "./db";
+import { codeSnippets, snippetPassphrases, snippetUnlockAttempts } from "@shared/schema";
+import { HttpError } from "./errors";
+
+const SCRYPT_COST = { N: 2 ** 15, r: 8, p: 1 };
+const SCRYPT_KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+
+const UNLOCK_TTL_SECONDS = (Number(process.env.SNIPPET_UNLOCK_TTL_MINUTES) || 30) * 60;
+// Failed attempts allowed in a rolling window, per snippet and per client IP.
+const ATTEMPT_WINDOW_MS = 15 * 60 * 1000;
+const SNIPPET_ATTEMPT_LIMIT = Number(process.env.SNIPPET_UNLOCK_SNIPPET_LIMIT) || 10;
+const IP_ATTEMPT_LIMIT = Number(process.env.SNIPPET_UNLOCK_IP_LIMIT) || 20;
+
+function deriveKey(passphrase: string, salt: Buffer, cost: ScryptOptions) {
+  return new Promise<Buffer>((resolve, reject) => {
+    // N=2^15 uses 32 MiB, right at Node's default limit, so allow some headroom.
+    scrypt(passphrase.normalize("NFC"), salt, SCRYPT_KEY_LENGTH, { ...cost, maxmem: 64 * 1024 * 1024 }, (error, key) => {
+      if (error) reject(error);
+      else resolve(key);
+    });
+  });
+}
+
+export async function hashPassphrase(passphrase: string) {
+  const salt = randomBytes(SALT_LENGTH);
+  const key = await deriveKey(passphrase, salt, SCRYPT_COST);
+  const { N, r, p } = SCRYPT_COST;
+  return `scrypt$${N}$${r}$${p}$${salt.toString("base64")}$${key.toString("base64")}`;
+}
+
+export async function verifyPassphrase(passphrase: string, stored: string) {
+  const [scheme, N, r, p, salt, key] = stored.split("$");
+  if (scheme !== "scrypt" || !key) return false;
+  const expected = Buffer.from(key, "base64");
+  const actual = await deriveKey(passphrase, Buffer.from(salt, "base64"), { N: Number(N), r: Number(r), p: Number(p) });
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+async function getPassphraseHash(snippetId: string) {
+  const [row] = await db
+    .select({ hash: snippetPassphrases.hash })
+    .from(snippetPassphrases)
+    .where(eq(snippetPassphrases.snippetId, snippetId))
+    .limit(1);
+  return row?.hash ?? null;
+}
+
+/** Sets or replaces the passphrase and marks the snippet protected. */
+export async function setSnippetPassphrase(snippetId: string, passphrase: string) {
+  const hash = await hashPassphrase(passphrase);
+  await db.transaction(async (tx) => {
+    await tx
+      .insert(snippetPassphrases)
+      .values({ snippetId, hash })
+      .onConflictDoUpdate({ target: snippetPassphrases.snippetId, set: { hash, updatedAt: new Date() } });
+    await tx.update(codeSnippets).set({ isProtected: true }).where(eq(codeSnippets.id, snippetId));
+  });
+}
+
+export async function removeSnippetPassphrase(snippetId: string) {
+  await db.transaction(async (tx) => {
+    await tx.delete(snippetPassphrases).where(eq(snippetPassphrases.snippetId, snippetId));
+    await tx.update(codeSnippets).set({ isProtected: false }).where(eq(codeSnippets.id, snippetId));
+  });
+}
+
+function signingKey() {
+  const secret = process.env.SNIPPET_UNLOCK_SECRET || process.env.AUTH_JWT_SECRET;
+  if (!secret) {
+    throw new Error("SNIPPET_UNLOCK_SECRET or AUTH_JWT_SECRET must be set to issue unlock tokens");
+  }
+  return secret;
+}
+
+// Signing over the stored hash means changing the passphrase revokes every token.
+function sign(snippetId: string, hash: string, expires: number) {
+  return createHmac("sha256", signingKey()).update(`snippet-unlock:${snippetId}:${hash}:${expires}`).digest("base64url");
+}
+
+function issueUnlockToken(snippetId: string, hash: string) {
+  const expires = Math.floor(Date.now() / 1000) + UNLOCK_TTL_SECONDS;
+  return { unlockToken: `${expires}.${sign(snippetId, hash, expires)}`, expiresAt: new Date(expires * 1000) };
+}
+
+/** Whether the token unlocks the snippet; null when the snippet has no passphrase. */
+export async function isUnlocked(snippetId: string, unlockToken: string | null | undefined) {
+  const hash = await getPassphraseHash(snippetId);
+  if (!hash) return null;
+
+  const [expiresPart, signature = ""] = (unlockToken ?? "").split(".");
+  const expires = Number(expiresPart);
+  const expected = Buffer.from(sign(snippetId, hash, expires));
+  const actual = Buffer.from(signature);
+  return Number.isInteger(expires)
+    && expires * 1000 >= Date.now()
+    && actual.length === expected.length
+    && timingSafeEqual(actual, expected);
+}
+
+/** Unlock tokens come in the X-Snippet-Unlock header, or `?unlock=` where headers cannot be set. */
+export function unlockTokenFrom(req: Pick<Request, "get" | "query">) {
+  const query = req.query.unlock;
+  return req.get("x-snippet-unlock") ?? (typeof query === "string" ? query : null);
+}
+
+function retryAfterSeconds(oldest: Date | null, now: number) {
+  return oldest ? Math.max(1, Math.ceil((oldest.getTime() + ATTEMPT_WINDOW_MS - now) / 1000)) : ATTEMPT_WINDOW_MS / 1000;
+}
+
+/**
+ * Checks a passphrase and returns a short-lived unlock token. Failures are
+ * recorded, and once a snippet or an IP has too many in the window further
+ * attempts are refused without checking the passphrase.
+ */
+export async function unlockSnippet(snippetId: string, passphrase: string, ip: string) {
+  const now = Date.now();
+
+  const { hash, correct } = await db.transaction(async (tx) => {
+    await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${`snippet-unlock:${snippetId}`}))`);
+
+    const [row] = await tx
+      .select({ hash: snippetPassphrases.hash })
+      .from(snippetPassphrases)
+      .where(eq(snippetPassphrases.snippetId, snippetId))
+      .limit(1);
+    if (!row) {
+      throw new HttpError(400, "This snippet does not have a passphrase");
+    }
+
+    const since = new Date(now - ATTEMPT_WINDOW_MS);
+    const [[bySnippet], [byIp]] = await Promise.all([
+      tx
+        .select({ failures: count(), oldest: min(snippetUnlockAttempts.createdAt) })
+        .from(snippetUnlockAttempts)
+        .where(and(eq(snippetUnlockAttempts.snippetId, snippetId), gt(snippetUnlockAttempts.createdAt, since))),
+      tx
+        .select({ failures: count(), oldest: min(snippetUnlockAttempts.createdAt) })
+        .from(snippetUnlockAttempts)
+        .where(and(eq(snippetUnlockAttempts.ip, ip), gt(snippetUnlockAttempts.createdAt, since))),
+    ]);
+    if (bySnippet.failures >= SNIPPET_ATTEMPT_LIMIT) {
+      throw new HttpError(429, "Too many incorrect passphrases for this snippet; try again later", {
+        retryAfter: retryAfterSeconds(bySnippet.oldest, now),
+      });
+    }
+    if (byIp.failures >= IP_ATTEMPT_LIMIT) {
+      throw new HttpError(429, "Too many incorrect passphrases; try again later", {
+        retryAfter: retryAfterSeconds(byIp.oldest, now),
+      });
+    }
+
+    const correct = await verifyPassphrase(passphrase, row.hash);
+    if (!correct) {
+      await tx.insert(snippetUnlockAttempts).values({ snippetId, ip });
+    }
+    return { hash: row.hash, correct };
+  });
+
+  if (!correct) {
+    throw new HttpError(401, "Incorrect passphrase", { passphraseRequired: true });
+  }
+  return issueUnlockToken(snippetId, hash);
+}
+
+/** Deletes failed attempts that no longer count toward any limit. */
+export async function pruneUnlockAttempts(now = new Date()) {
+  const pruned = await db
+    .delete(snippetUnlockAttempts)
+    .where(lte(snippetUnlockAttempts.createdAt, new Date(now.getTime() - ATTEMPT_WINDOW_MS)))
+    .returning({ id: snippetUnlockAttempts.id });
+  return pruned.length;
+}
@@ -0,0 +1,145 @@
+import { and, desc, eq, lt, sql } from "drizzle-orm";
+import { createTwoFilesPatch } from "diff";
+import { db } from "./db";
+import { snippetRevisions, type SnippetRevision } from "@shared/schema";
+import { HttpError } from "./errors";
+
+// Saves by the same author within this window of a revision being opened are
+// folded into it, so autosave produces at most one row per author per window.
+export const COALESCE_WINDOW_MS = Number(process.env.REVISION_COALESCE_WINDOW_MS) || 60_000;
+
+interface RevisionInput {
+  content: string;
+  title?: string | null;
+  language?: string | null;
+  authorId?: string | null;
+  restoredFrom?: number;
+  // Content before this change; recorded as the first revision for snippets
+  // that predate revision history.
+  previousContent?: string | null;
+}
+
+export async function recordRevision(snippetId: string, input: RevisionInput): Promise<SnippetRevision | null> {
+  return db.transaction(async (tx) => {
+    await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${snippetId}))`);
+
+    let [latest] = await tx
+      .select()
+      .from(snippetRevisions)
+      .where(eq(snippetRevisions.snippetId, snippetId))
+      .orderBy(desc(snippetRevisions.revision))
+      .limit(1);
+
+    if (!latest && input.previousContent != null && input.previousContent !== input.content) {
+      [latest] = await tx
+        .insert(snippetRevisions)
+        .values({ snippetId, revision: 1, content: input.previousContent, title: input.title, language: input.language })
+        .returning();
+    }
+
+    if (latest && latest.content === input.content && input.restoredFrom === undefined) {
+      return null;
+    }
+
+    const authorId = input.authorId ?? null;
+    // The first revision always keeps the original content.
+    const canCoalesce = latest
+      && latest.revision > 1
+      && input.restoredFrom === undefined
+      && latest.restoredFrom === null
+      && latest.authorId === authorId
+      && Date.now() - latest.createdAt.getTime() < COALESCE_WINDOW_MS;
+
+    if (canCoalesce) {
+      const [updated] = await tx
+        .update(snippetRevisions)
+        .set({ content: input.content, title: input.title, language: input.language, updatedAt: new Date() })
+        .where(eq(snippetRevisions.id, latest.id))
+        .returning();
+      return updated;
+    }
+
+    const [created] = await tx
+      .insert(snippetRevisions)
+      .values({
+        snippetId,
+        revision: (latest?.revision ?? 0) + 1,
+        content: input.content,
+        title: input.title,
+        language: input.language,
+        authorId,
+        restoredFrom: input.restoredFrom,
+      })
+      .returning();
+    return created;
+  });
+}
+
+export async function listRevisions(snippetId: string, options: { before?: number; limit?: number } = {}) {
+  const limit = Math.min(Math.max(Math.floor(Number(options.limit) || 50), 1), 200);
+  const before = Number(options.before) || undefined;
+  return db
+    .select({
+      id: snippetRevisions.id,
+      revision: snippetRevisions.revision,
+      title: snippetRevisions.title,
+      language: snippetRevisions.language,
+      authorId: snippetRevisions.authorId,
+      restoredFrom: snippetRevisions.restoredFrom,
+      size: sql<number>`length(${snippetRevisions.content})`.mapWith(Number),
+      createdAt: snippetRevisions.createdAt,
+      updatedAt: snippetRevisions.updatedAt,
+    })
+    .from(snippetRevisions)
+    .where(before
+      ? and(eq(snippetRevisions.snippetId, snippetId), lt(snippetRevisions.revision, before))
+      : eq(snippetRevisions.snippetId, snippetId))
+    .orderBy(desc(snippetRevisions.revision))
+    .limit(limit);
+}
+
+export async function getRevision(snippetId: string, revision: number): Promise<SnippetRevision> {
+  if (!Number.isInteger(revision) || revision < 1) {
+    throw new HttpError(400, "Revision must be a positive integer");
+  }
+
+  const [row] = await db
+    .select()
+    .from(snippetRevisions)
+    .where(and(eq(snippetRevisions.snippetId, snippetId), eq(snippetRevisions.revision, revision)))
+    .limit(1);
+
+  if (!row) {
+    throw new HttpError(404, `Revision ${revision} not found`);
+  }
+  return row;
+}
+
+export async function getLatestRevisionNumber(snippetId: string): Promise<number | null> {
+  const [row] = await db
+    .select({ revision: snippetRevisions.revision })
+    .from(snippetRevisions)
+    .where(eq(snippetRevisions.snippetId, snippetId))
+    .orderBy(desc(snippetRevisions.revision))
+    .limit(1);
+  return row?.revision ?? null;
+}
+
+export async function diffRevisions(snippetId: string, from: number, to: number, context = 3) {
+  const [fromRevision, toRevision] = await Promise.all([
+    getRevision(snippetId, from),
+    getRevision(snippetId, to),
+  ]);
+
+  const diff = createTwoFilesPatch(
+    `revision-${from}`,
+    `revision-${to}`,
+    fromRevision.content,
+    toRevision.content,
+    fromRevision.updatedAt.toISOString(),
+    toRevision.updatedAt.toISOString(),
+    { context },
+  );
+
+  return { from, to, diff };
+}
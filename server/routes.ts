@@ -4,7 +4,6 @@ import {
   codeSnippets, 
   snippetCollaborators,
   snippetMessages,
-  snippetCalls,
   projects,
   projectFiles,
   codingChallenges,
@@ -12,35 +11,165 @@ import {
   userPracticeStats,
   userChallengeHistory,
   profiles,
-  verificationTokens,
   supportTickets,
+  projectCollaborators,
   insertCodeSnippetSchema,
+  insertProjectSchema,
   insertSnippetMessageSchema,
   insertCodingChallengeSchema,
   insertChallengeSubmissionSchema,
   insertSupportTicketSchema,
+  ticketReplySchema,
+  updateTicketSchema,
+  executeCodeRequestSchema,
+  formatCodeRequestSchema,
+  assistRequestSchema,
+  generateChallengeRequestSchema,
+  snippetTtlSchema,
+  galleryQuerySchema,
+  leaderboardQuerySchema,
+  snippetListingSchema,
+  forkSnippetSchema,
+  convertSnippetSchema,
+  transferSnippetSchema,
+  updateProjectFileSchema,
+  snippetPassphraseSchema,
+  unlockSnippetSchema,
+  emailAddressSchema,
+  verificationTokenSchema,
+  passwordResetSchema,
+  claimUsernameSchema,
+  profileSearchSchema,
+  projectExportQuerySchema,
+  archiveImportFieldsSchema,
+  embedQuerySchema,
+  oembedQuerySchema,
+  SNIPPET_TTL_PRESETS,
 } from "@shared/schema";
 import { eq, desc, and, or, sql } from "drizzle-orm";
 import { nanoid } from "nanoid";
+import { executeCode, ExecutionError, reserveRun } from "./executor";
+import { formatCode, formatProject } from "./formatter";
+import { runAssist } from "./assist";
+import { deleteMessage, editMessage, getReadState, listMessages, markRead } from "./chat";
+import { generateChallenge } from "./challengeGenerator";
+import { getTestCases, gradeSubmission, toPublicChallenge } from "./grading";
+import { recomputeAllStats, recomputeUserStats, recordSubmission, withEffectiveStreak } from "./stats";
+import { authenticate, requireAdmin, requireAuth, resolveUsername } from "./auth";
+import { isSnippetExpired, loadProject, loadSnippetById, loadSnippetByToken, loadTicket } from "./access";
+import { HttpError } from "./errors";
+import { diffRevisions, getLatestRevisionNumber, getRevision, listRevisions, recordRevision } from "./revisions";
+import { publishToSnippet, replaceDocument } from "./collab";
+import {
+  deleteAttachment,
+  isImageAttachment,
+  loadAttachment,
+  openAttachment,
+  readUpload,
+  signedAttachmentUrl,
+  storeAttachment,
+  toPublicAttachment,
+  verifyAttachmentSignature,
+} from "./attachments";
+import { sweeperMetrics } from "./sweeper";
+import {
+  applyVideoEvent,
+  endCallForUser,
+  ensureActiveCall,
+  getActiveCall,
+  joinCall,
+  leaveCall,
+  withParticipants,
+} from "./calls";
+import { getVideoProvider } from "./video";
+import { getSnippetTags, listGallery, listPopularTags, normalizeTags, recordView, setFeatured, setSnippetTags } from "./gallery";
+import { removeSnippetPassphrase, setSnippetPassphrase, unlockSnippet, unlockTokenFrom } from "./protection";
+import { convertSnippetToProject, forkSnippet, getForkTree, transferSnippet } from "./forks";
+import {
+  confirmEmailChange,
+  confirmEmailVerification,
+  getAccountEmail,
+  requestEmailChange,
+  requestPasswordReset,
+  resetPassword,
+  sendEmailVerification,
+} from "./accounts";
+import { getLeaderboard, getLeaderboardPosition } from "./leaderboard";
+import {
+  createProjectFromArchive,
+  exportProjectArchive,
+  exportSnippetFile,
+  importArchiveIntoProject,
+  MAX_ARCHIVE_BYTES,
+  readArchive,
+} from "./archives";
+import { exportUserData } from "./dataExport";
+import { EMBED_CACHE_CONTROL, getOEmbed, loadEmbeddableSnippet, renderEmbed, snippetEtag } from "./embeds";
+import {
+  checkUsername,
+  claimUsername,
+  getOwnProfile,
+  getPublicProfile,
+  MAX_AVATAR_BYTES,
+  openAvatar,
+  removeAvatar,
+  searchProfiles,
+  setAvatar,
+} from "./profiles";
+import { addReply, createTicket, getTicketThread, listOwnTickets, listTicketQueue, updateTicket } from "./tickets";
+import { createProjectFile, deleteProjectFile, updateProjectFile } from "./projectFiles";
+import { getGitHubStatus, importFromGitHub, parseRepoUrl, pullFromGitHub, pushToGitHub } from "./github";
+import {
+  createProjectSecret,
+  deleteProjectSecret,
+  listProjectSecrets,
+  loadProjectSecretEnv,
+  rotateSecretKeys,
+  updateProjectSecret,
+} from "./secrets";
 
 export function registerRoutes(app: Express) {
   
+  app.use("/api", authenticate);
+
   app.get("/api/health", (req, res) => {
     res.json({ status: "ok", timestamp: new Date().toISOString() });
   });
 
   app.post("/api/snippets", async (req, res) => {
     try {
-      const data = insertCodeSnippetSchema.parse(req.body);
+      const { ttl, tags, ...body } = req.body;
+      const data = insertCodeSnippetSchema.parse(body);
+      const tagNames = Array.isArray(tags) ? normalizeTags(tags) : [];
       const shareToken = nanoid(12);
       
+      const expiry = ttl === undefined ? {} : {
+        isTemporary: true,
+        expiresAt: new Date(Date.now() + SNIPPET_TTL_PRESETS[snippetTtlSchema.parse(ttl)]),
+      };
+      
       const [snippet] = await db.insert(codeSnippets).values({
         ...data,
+        ...expiry,
+        ownerId: req.user?.id ?? null,
         shareToken,
       }).returning();
       
-      res.json(snippet);
+      await recordRevision(snippet.id, {
+        content: snippet.content ?? "",
+        title: snippet.title,
+        language: snippet.language,
+        authorId: req.user?.id,
+      });
+      if (tagNames.length > 0) {
+        await setSnippetTags(snippet.id, tagNames);
+      }
+      
+      res.json({ ...snippet, tags: tagNames });
     } catch (error: any) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message });
+      }
       console.error("Error creating snippet:", error);
       res.status(400).json({ error: error.message });
     }
@@ -48,352 +177,1972 @@ export function registerRoutes(app: Express) {
 
   app.get("/api/snippets/:shareToken", async (req, res) => {
     try {
-      const [snippet] = await db
-        .select()
-        .from(codeSnippets)
-        .where(eq(codeSnippets.shareToken, req.params.shareToken))
-        .limit(1);
-      
-      if (!snippet) {
-        return res.status(404).json({ error: "Snippet not found" });
+      const snippet = await loadSnippetByToken(req.params.shareToken, req.user, "read", unlockTokenFrom(req));
+      if (snippet.ownerId !== req.user?.id) {
+        await recordView(snippet.id);
       }
       
-      res.json(snippet);
+      res.json({ ...snippet, tags: await getSnippetTags(snippet.id) });
     } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message, ...error.details });
+      }
       console.error("Error fetching snippet:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  app.patch("/api/snippets/:shareToken", async (req, res) => {
+  // Embeds and raw views ignore sessions and unlock tokens; see loadEmbeddableSnippet.
+  app.get("/api/snippets/:shareToken/embed", async (req, res) => {
     try {
-      const { content, title, description, language } = req.body;
-      
-      const [snippet] = await db
-        .update(codeSnippets)
-        .set({ 
-          content, 
-          title, 
-          description, 
-          language,
-          updatedAt: new Date() 
-        })
-        .where(eq(codeSnippets.shareToken, req.params.shareToken))
-        .returning();
-      
-      if (!snippet) {
-        return res.status(404).json({ error: "Snippet not found" });
+      const parsed = embedQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
       }
+      const snippet = await loadEmbeddableSnippet(req.params.shareToken);
+      const html = renderEmbed(snippet, parsed.data);
       
-      res.json(snippet);
+      res.setHeader("Content-Type", "text/html; charset=utf-8");
+      res.setHeader("Content-Security-Policy", "default-src 'none'; style-src 'unsafe-inline'; frame-ancestors *; base-uri 'self'");
+      res.setHeader("X-Content-Type-Options", "nosniff");
+      res.setHeader("Cache-Control", EMBED_CACHE_CONTROL);
+      res.setHeader("ETag", `W/${snippetEtag(snippet)}`);
+      res.send(html);
     } catch (error) {
-      console.error("Error updating snippet:", error);
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error rendering snippet embed:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  app.get("/api/snippets/:snippetId/messages", async (req, res) => {
+  app.get("/api/snippets/:shareToken/raw", async (req, res) => {
     try {
-      const messages = await db
-        .select()
-        .from(snippetMessages)
-        .where(eq(snippetMessages.snippetId, req.params.snippetId))
-        .orderBy(desc(snippetMessages.createdAt))
-        .limit(100);
+      const snippet = await loadEmbeddableSnippet(req.params.shareToken);
       
-      res.json(messages);
+      res.setHeader("Content-Type", "text/plain; charset=utf-8");
+      res.setHeader("X-Content-Type-Options", "nosniff");
+      res.setHeader("Cache-Control", EMBED_CACHE_CONTROL);
+      res.setHeader("ETag", snippetEtag(snippet));
+      res.send(snippet.content ?? "");
     } catch (error) {
-      console.error("Error fetching messages:", error);
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error fetching raw snippet:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  app.post("/api/snippets/:snippetId/messages", async (req, res) => {
+  app.get("/api/oembed", async (req, res) => {
     try {
-      const data = insertSnippetMessageSchema.parse({
-        ...req.body,
-        snippetId: req.params.snippetId,
-      });
-      
-      const [message] = await db.insert(snippetMessages).values(data).returning();
+      const parsed = oembedQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      const { url, format, ...options } = parsed.data;
+      if (format && format !== "json") {
+        return res.status(501).json({ error: "Only the json format is supported" });
+      }
       
-      res.json(message);
-    } catch (error: any) {
-      console.error("Error creating message:", error);
-      res.status(400).json({ error: error.message });
+      res.setHeader("Cache-Control", EMBED_CACHE_CONTROL);
+      res.json(await getOEmbed(url, options));
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error building oEmbed response:", error);
+      res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  app.post("/api/coding-challenges/generate", async (req, res) => {
+  // Exports take no unlock token: protected snippets download only for the owner and collaborators.
+  app.get("/api/snippets/:shareToken/download", async (req, res) => {
     try {
-      const { difficulty, language } = req.body;
-      
-      const challenge = {
-        title: `${difficulty.charAt(0).toUpperCase() + difficulty.slice(1)} ${language} Challenge`,
-        description: `Practice your ${language} skills with this ${difficulty} level challenge.`,
-        difficulty,
-        language,
-        testCases: [
-          { input: "test", expected: "test", description: "Basic test case" }
-        ],
-        hints: [`Think about how to solve this step by step in ${language}`],
-        constraints: "Standard constraints apply",
-      };
-      
-      const [created] = await db.insert(codingChallenges).values(challenge).returning();
+      const snippet = await loadSnippetByToken(req.params.shareToken, req.user, "read");
+      const { fileName, content } = exportSnippetFile(snippet);
       
-      res.json(created);
+      res.setHeader("Content-Type", "text/plain; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename*=UTF-8''${encodeURIComponent(fileName)}`);
+      res.setHeader("X-Content-Type-Options", "nosniff");
+      res.send(content);
     } catch (error) {
-      console.error("Error generating challenge:", error);
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message, ...error.details });
+      }
+      console.error("Error downloading snippet:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  app.get("/api/coding-challenges", async (req, res) => {
+  // Whether the snippet appears in the public gallery, and under which tags.
+  app.put("/api/snippets/:shareToken/listing", requireAuth, async (req, res) => {
     try {
-      const { difficulty, language } = req.query;
+      const snippet = await loadSnippetByToken(req.params.shareToken, req.user, "owner");
+      const parsed = snippetListingSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
       
-      const conditions = [];
-      if (difficulty) {
-        conditions.push(eq(codingChallenges.difficulty, difficulty as string));
+      const tagNames = parsed.data.tags ? await setSnippetTags(snippet.id, parsed.data.tags) : await getSnippetTags(snippet.id);
+      let isPublic = snippet.isPublic;
+      if (parsed.data.isPublic !== undefined) {
+        await db.update(codeSnippets).set({ isPublic: parsed.data.isPublic }).where(eq(codeSnippets.id, snippet.id));
+        isPublic = parsed.data.isPublic;
       }
-      if (language) {
-        conditions.push(eq(codingChallenges.language, language as string));
+      
+      res.json({ isPublic, tags: tagNames });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error updating snippet listing:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Setting a passphrase protects the snippet; removing it makes it readable by share token again.
+  app.put("/api/snippets/:shareToken/passphrase", requireAuth, async (req, res) => {
+    try {
+      const snippet = await loadSnippetByToken(req.params.shareToken, req.user, "owner");
+      const parsed = snippetPassphraseSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
       }
       
-      const challenges = await db
-        .select()
-        .from(codingChallenges)
-        .where(conditions.length > 0 ? and(...conditions) : undefined)
-        .orderBy(desc(codingChallenges.createdAt))
-        .limit(50);
+      await setSnippetPassphrase(snippet.id, parsed.data.passphrase);
+      res.json({ isProtected: true });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error setting snippet passphrase:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/snippets/:shareToken/passphrase", requireAuth, async (req, res) => {
+    try {
+      const snippet = await loadSnippetByToken(req.params.shareToken, req.user, "owner");
       
-      res.json(challenges);
+      await removeSnippetPassphrase(snippet.id);
+      res.json({ isProtected: false });
     } catch (error) {
-      console.error("Error fetching challenges:", error);
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error removing snippet passphrase:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  app.get("/api/coding-challenges/:id", async (req, res) => {
+  // Exchanges the passphrase for an unlock token, sent back as X-Snippet-Unlock.
+  app.post("/api/snippets/:shareToken/unlock", async (req, res) => {
     try {
-      const [challenge] = await db
+      const [snippet] = await db
         .select()
-        .from(codingChallenges)
-        .where(eq(codingChallenges.id, req.params.id))
+        .from(codeSnippets)
+        .where(eq(codeSnippets.shareToken, req.params.shareToken))
         .limit(1);
+      if (!snippet) {
+        return res.status(404).json({ error: "Snippet not found" });
+      }
+      if (isSnippetExpired(snippet)) {
+        return res.status(410).json({ error: "Snippet has expired" });
+      }
+      const parsed = unlockSnippetSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
       
-      if (!challenge) {
-        return res.status(404).json({ error: "Challenge not found" });
+      res.json(await unlockSnippet(snippet.id, parsed.data.passphrase, req.ip ?? req.socket.remoteAddress ?? "unknown"));
+    } catch (error) {
+      if (error instanceof HttpError) {
+        if (error.details?.retryAfter) res.set("Retry-After", String(error.details.retryAfter));
+        return res.status(error.status).json({ error: error.message, ...error.details });
+      }
+      console.error("Error unlocking snippet:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/snippets/:shareToken/fork", requireAuth, async (req, res) => {
+    try {
+      const snippet = await loadSnippetByToken(req.params.shareToken, req.user, "read");
+      const parsed = forkSnippetSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
       }
       
-      res.json(challenge);
+      res.status(201).json(await forkSnippet(snippet, req.user!, parsed.data.title));
     } catch (error) {
-      console.error("Error fetching challenge:", error);
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error forking snippet:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  app.post("/api/coding-challenges/:challengeId/submit", async (req, res) => {
+  app.get("/api/snippets/:shareToken/forks", async (req, res) => {
     try {
-      const data = insertChallengeSubmissionSchema.parse({
-        ...req.body,
-        challengeId: req.params.challengeId,
-      });
+      const snippet = await loadSnippetByToken(req.params.shareToken, req.user, "read", unlockTokenFrom(req));
       
-      const testResults = [
-        { passed: true, input: "test", expected: "test", actual: "test" }
-      ];
-      const score = 100;
-      const rank = "A+";
+      res.json(await getForkTree(snippet, req.user));
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message, ...error.details });
+      }
+      console.error("Error fetching fork tree:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/snippets/:shareToken/convert-to-project", requireAuth, async (req, res) => {
+    try {
+      const snippet = await loadSnippetByToken(req.params.shareToken, req.user, "read");
+      const parsed = convertSnippetSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
       
-      const [submission] = await db.insert(challengeSubmissions).values({
-        ...data,
-        score,
-        rank,
-        testResults,
-        feedback: "Great work!",
-        strengths: ["Clean code", "Efficient solution"],
-        improvements: [],
-      }).returning();
+      res.status(201).json(await convertSnippetToProject(snippet, req.user!, parsed.data));
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error converting snippet to project:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/snippets/:shareToken/transfer", requireAuth, async (req, res) => {
+    try {
+      const snippet = await loadSnippetByToken(req.params.shareToken, req.user, "owner");
+      const parsed = transferSnippetSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
       
-      if (data.userId) {
-        await db
-          .insert(userPracticeStats)
-          .values({
-            userId: data.userId,
-            totalChallenges: 1,
-            totalSubmissions: 1,
-            averageScore: "100.00",
-            totalPoints: score,
-          })
-          .onConflictDoUpdate({
-            target: userPracticeStats.userId,
-            set: {
-              totalSubmissions: sql`${userPracticeStats.totalSubmissions} + 1`,
-              totalPoints: sql`${userPracticeStats.totalPoints} + ${score}`,
-              updatedAt: new Date(),
-            },
-          });
-      }
-      
-      res.json(submission);
-    } catch (error: any) {
-      console.error("Error submitting challenge:", error);
-      res.status(400).json({ error: error.message });
+      res.json(await transferSnippet(snippet, req.user!, parsed.data));
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error transferring snippet:", error);
+      res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  app.get("/api/leaderboard", async (req, res) => {
+  app.get("/api/explore/snippets", async (req, res) => {
     try {
-      const stats = await db
-        .select()
-        .from(userPracticeStats)
-        .orderBy(desc(userPracticeStats.totalPoints))
-        .limit(100);
+      const parsed = galleryQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
       
-      res.json(stats);
+      res.json(await listGallery(parsed.data));
     } catch (error) {
-      console.error("Error fetching leaderboard:", error);
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error fetching gallery:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/explore/tags", async (req, res) => {
+    try {
+      res.json(await listPopularTags());
+    } catch (error) {
+      console.error("Error fetching tags:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  app.post("/api/support-tickets", async (req, res) => {
+  app.put("/api/admin/snippets/:snippetId/featured", requireAdmin, async (req, res) => {
     try {
-      const data = insertSupportTicketSchema.parse(req.body);
+      const { featured } = req.body;
       
-      const [ticket] = await db.insert(supportTickets).values(data).returning();
+      if (typeof featured !== "boolean") {
+        return res.status(400).json({ error: "featured must be a boolean" });
+      }
       
-      res.json(ticket);
-    } catch (error: any) {
-      console.error("Error creating support ticket:", error);
-      res.status(400).json({ error: error.message });
+      res.json(await setFeatured(req.params.snippetId, featured));
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error featuring snippet:", error);
+      res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  app.post("/api/daily/room", async (req, res) => {
+  app.patch("/api/snippets/:shareToken", async (req, res) => {
     try {
-      const { snippetId, startedBy } = req.body;
+      const { content, title, description, language } = req.body;
+      const existing = await loadSnippetByToken(req.params.shareToken, req.user, "write");
       
-      const roomName = `snippet-${snippetId}-${nanoid(8)}`;
-      const roomUrl = `https://example.daily.co/${roomName}`;
+      const [snippet] = await db
+        .update(codeSnippets)
+        .set({ 
+          content, 
+          title, 
+          description, 
+          language,
+          updatedAt: new Date() 
+        })
+        .where(eq(codeSnippets.id, existing.id))
+        .returning();
       
-      const [call] = await db.insert(snippetCalls).values({
-        snippetId,
-        roomName,
-        roomUrl,
-        startedBy,
-        isActive: true,
-      }).returning();
+      if (typeof content === "string" && content !== existing.content) {
+        await recordRevision(snippet.id, {
+          content,
+          title: snippet.title,
+          language: snippet.language,
+          authorId: req.user?.id,
+          previousContent: existing.content,
+        });
+        replaceDocument(snippet.id, content);
+      }
       
-      res.json(call);
+      res.json(snippet);
     } catch (error) {
-      console.error("Error creating video call:", error);
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error updating snippet:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  app.post("/api/code/execute", async (req, res) => {
+  app.get("/api/snippets/:shareToken/revisions", async (req, res) => {
     try {
-      const { code, language } = req.body;
+      const snippet = await loadSnippetByToken(req.params.shareToken, req.user, "read", unlockTokenFrom(req));
       
-      const result = {
-        output: `Code execution for ${language} would run here. Integration with code execution service needed.`,
-        error: null,
-        executionTime: 42,
-      };
+      const revisions = await listRevisions(snippet.id, {
+        before: req.query.before ? Number(req.query.before) : undefined,
+        limit: req.query.limit ? Number(req.query.limit) : undefined,
+      });
       
-      res.json(result);
+      res.json(revisions);
     } catch (error) {
-      console.error("Error executing code:", error);
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message, ...error.details });
+      }
+      console.error("Error fetching revisions:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  app.post("/api/code/format", async (req, res) => {
+  app.get("/api/snippets/:shareToken/revisions/:revision", async (req, res) => {
     try {
-      const { code, language } = req.body;
+      const snippet = await loadSnippetByToken(req.params.shareToken, req.user, "read", unlockTokenFrom(req));
       
-      res.json({ formattedCode: code });
+      res.json(await getRevision(snippet.id, Number(req.params.revision)));
     } catch (error) {
-      console.error("Error formatting code:", error);
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message, ...error.details });
+      }
+      console.error("Error fetching revision:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  app.post("/api/code/assist", async (req, res) => {
+  app.get("/api/snippets/:shareToken/diff", async (req, res) => {
     try {
-      const { code, language, prompt } = req.body;
+      const snippet = await loadSnippetByToken(req.params.shareToken, req.user, "read", unlockTokenFrom(req));
+      const latest = await getLatestRevisionNumber(snippet.id);
       
-      const response = {
-        suggestion: `AI assistance for ${language} code would be provided here. Integration with AI service needed.`,
-        explanation: `Analysis of the code and suggestions based on: ${prompt}`,
-      };
+      if (!latest) {
+        return res.status(404).json({ error: "Snippet has no revisions" });
+      }
       
-      res.json(response);
+      const to = req.query.to ? Number(req.query.to) : latest;
+      const from = req.query.from ? Number(req.query.from) : Math.max(to - 1, 1);
+      const context = req.query.context ? Number(req.query.context) : undefined;
+      
+      res.json(await diffRevisions(snippet.id, from, to, context));
     } catch (error) {
-      console.error("Error with code assist:", error);
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message, ...error.details });
+      }
+      console.error("Error diffing revisions:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  app.get("/api/projects", async (req, res) => {
+  app.post("/api/snippets/:shareToken/revisions/:revision/restore", async (req, res) => {
     try {
-      const { ownerId } = req.query;
+      const existing = await loadSnippetByToken(req.params.shareToken, req.user, "write");
+      const target = await getRevision(existing.id, Number(req.params.revision));
       
-      if (!ownerId) {
-        return res.status(400).json({ error: "ownerId is required" });
-      }
+      const [snippet] = await db
+        .update(codeSnippets)
+        .set({
+          content: target.content,
+          title: target.title ?? existing.title,
+          language: target.language ?? existing.language,
+          updatedAt: new Date(),
+        })
+        .where(eq(codeSnippets.id, existing.id))
+        .returning();
       
-      const userProjects = await db
-        .select()
-        .from(projects)
-        .where(eq(projects.ownerId, ownerId as string))
-        .orderBy(desc(projects.updatedAt));
+      const revision = await recordRevision(snippet.id, {
+        content: target.content,
+        title: snippet.title,
+        language: snippet.language,
+        authorId: req.user?.id,
+        restoredFrom: target.revision,
+      });
+      replaceDocument(snippet.id, target.content);
       
-      res.json(userProjects);
+      res.json({ snippet, revision });
     } catch (error) {
-      console.error("Error fetching projects:", error);
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error restoring revision:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  app.get("/api/projects/:projectId/files", async (req, res) => {
+  app.post("/api/snippets/:shareToken/collaborators", requireAuth, async (req, res) => {
     try {
-      const files = await db
-        .select()
-        .from(projectFiles)
-        .where(eq(projectFiles.projectId, req.params.projectId))
-        .orderBy(projectFiles.path);
+      const { userId, username } = req.body;
+      const snippet = await loadSnippetByToken(req.params.shareToken, req.user, "owner");
       
-      res.json(files);
+      if (!userId) {
+        return res.status(400).json({ error: "userId is required" });
+      }
+      
+      const [collaborator] = await db
+        .insert(snippetCollaborators)
+        .values({ snippetId: snippet.id, userId, username: username ?? null })
+        .onConflictDoUpdate({
+          target: [snippetCollaborators.snippetId, snippetCollaborators.userId],
+          set: { username: username ?? null },
+        })
+        .returning();
+      
+      res.json(collaborator);
+    } catch (error: any) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error adding collaborator:", error);
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.delete("/api/snippets/:shareToken/collaborators/:userId", requireAuth, async (req, res) => {
+    try {
+      const snippet = await loadSnippetByToken(req.params.shareToken, req.user, "owner");
+      
+      await db
+        .delete(snippetCollaborators)
+        .where(and(
+          eq(snippetCollaborators.snippetId, snippet.id),
+          eq(snippetCollaborators.userId, req.params.userId),
+        ));
+      
+      res.status(204).end();
     } catch (error) {
-      console.error("Error fetching project files:", error);
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error removing collaborator:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  app.get("/api/users/:userId/stats", async (req, res) => {
+  app.get("/api/snippets/:snippetId/messages", async (req, res) => {
     try {
-      const [stats] = await db
-        .select()
-        .from(userPracticeStats)
-        .where(eq(userPracticeStats.userId, req.params.userId))
-        .limit(1);
+      const snippet = await loadSnippetById(req.params.snippetId, req.user, "read");
+      const { before, after, limit } = req.query;
       
-      res.json(stats || {
-        userId: req.params.userId,
-        totalChallenges: 0,
-        totalSubmissions: 0,
-        averageScore: "0.00",
-        totalPoints: 0,
-        currentStreak: 0,
-        longestStreak: 0,
-      });
+      res.json(await listMessages(snippet.id, {
+        before: before ? String(before) : undefined,
+        after: after ? String(after) : undefined,
+        limit: Number(limit) || undefined,
+      }));
     } catch (error) {
-      console.error("Error fetching user stats:", error);
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error fetching messages:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
+
+  app.post("/api/snippets/:snippetId/messages", requireAuth, async (req, res) => {
+    try {
+      const user = req.user!;
+      await loadSnippetById(req.params.snippetId, user, "read");
+      
+      const data = insertSnippetMessageSchema.parse({
+        ...req.body,
+        snippetId: req.params.snippetId,
+        userId: user.id,
+        username: await resolveUsername(user),
+      });
+      
+      const [message] = await db.insert(snippetMessages).values(data).returning();
+      publishToSnippet(message.snippetId, { type: "chat", event: "created", message });
+      
+      res.json(message);
+    } catch (error: any) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error creating message:", error);
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.patch("/api/snippets/:snippetId/messages/:messageId", requireAuth, async (req, res) => {
+    try {
+      const snippet = await loadSnippetById(req.params.snippetId, req.user, "read");
+      
+      const message = await editMessage(snippet.id, req.params.messageId, req.user!.id, req.body.content);
+      publishToSnippet(snippet.id, { type: "chat", event: "updated", message });
+      
+      res.json(message);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error editing message:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/snippets/:snippetId/messages/:messageId", requireAuth, async (req, res) => {
+    try {
+      const snippet = await loadSnippetById(req.params.snippetId, req.user, "read");
+      
+      const message = await deleteMessage(snippet.id, req.params.messageId, req.user!.id);
+      publishToSnippet(snippet.id, { type: "chat", event: "deleted", message });
+      
+      res.status(204).end();
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error deleting message:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/snippets/:snippetId/messages/read", requireAuth, async (req, res) => {
+    try {
+      const snippet = await loadSnippetById(req.params.snippetId, req.user, "read");
+      
+      res.json(await getReadState(snippet.id, req.user!.id));
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error fetching read markers:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.put("/api/snippets/:snippetId/messages/read", requireAuth, async (req, res) => {
+    try {
+      const snippet = await loadSnippetById(req.params.snippetId, req.user, "read");
+      const { messageId } = req.body;
+      
+      if (typeof messageId !== "string") {
+        return res.status(400).json({ error: "messageId is required" });
+      }
+      
+      const marker = await markRead(snippet.id, req.user!.id, messageId);
+      publishToSnippet(snippet.id, { type: "read", userId: marker.userId, lastReadMessageId: marker.lastReadMessageId });
+      
+      res.json(marker);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error updating read marker:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/snippets/:snippetId/attachments", requireAuth, async (req, res) => {
+    try {
+      const user = req.user!;
+      const snippet = await loadSnippetById(req.params.snippetId, user, "read");
+      
+      const upload = await readUpload(req);
+      const attachment = await storeAttachment(upload, { snippetId: snippet.id }, user.id);
+      
+      // Attachments are posted to the chat as a message pointing at the attachment.
+      let message;
+      try {
+        [message] = await db.insert(snippetMessages).values({
+          snippetId: snippet.id,
+          userId: user.id,
+          username: await resolveUsername(user),
+          messageType: isImageAttachment(attachment) ? "image" : "file",
+          content: upload.fields.caption?.trim() || null,
+          fileUrl: `/api/attachments/${attachment.id}`,
+          fileName: attachment.fileName,
+          fileSize: attachment.size,
+          fileType: attachment.contentType,
+        }).returning();
+      } catch (error) {
+        // Without its message nothing refers to the attachment.
+        await deleteAttachment(attachment).catch((cleanupError) => console.error("Error removing attachment:", cleanupError));
+        throw error;
+      }
+      publishToSnippet(snippet.id, { type: "chat", event: "created", message });
+      
+      res.status(201).json({ attachment: toPublicAttachment(attachment), message });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error uploading attachment:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/coding-challenges/generate", requireAuth, async (req, res) => {
+    try {
+      const parsed = generateChallengeRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      
+      const created = await generateChallenge(parsed.data, req.user!.id);
+      
+      res.status(201).json(toPublicChallenge(created));
+    } catch (error) {
+      if (error instanceof HttpError) {
+        if (error.details?.retryAfter) res.set("Retry-After", String(error.details.retryAfter));
+        return res.status(error.status).json({ error: error.message, ...error.details });
+      }
+      console.error("Error generating challenge:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/coding-challenges", async (req, res) => {
+    try {
+      const { difficulty, language } = req.query;
+      
+      const conditions = [];
+      if (difficulty) {
+        conditions.push(eq(codingChallenges.difficulty, difficulty as string));
+      }
+      if (language) {
+        conditions.push(eq(codingChallenges.language, language as string));
+      }
+      
+      const challenges = await db
+        .select()
+        .from(codingChallenges)
+        .where(conditions.length > 0 ? and(...conditions) : undefined)
+        .orderBy(desc(codingChallenges.createdAt))
+        .limit(50);
+      
+      res.json(challenges.map(toPublicChallenge));
+    } catch (error) {
+      console.error("Error fetching challenges:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/coding-challenges/:id", async (req, res) => {
+    try {
+      const [challenge] = await db
+        .select()
+        .from(codingChallenges)
+        .where(eq(codingChallenges.id, req.params.id))
+        .limit(1);
+      
+      if (!challenge) {
+        return res.status(404).json({ error: "Challenge not found" });
+      }
+      
+      res.json(toPublicChallenge(challenge));
+    } catch (error) {
+      console.error("Error fetching challenge:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/coding-challenges/:challengeId/submit", requireAuth, async (req, res) => {
+    try {
+      const data = insertChallengeSubmissionSchema.parse({
+        ...req.body,
+        challengeId: req.params.challengeId,
+        userId: req.user!.id,
+      });
+      
+      const [challenge] = await db
+        .select()
+        .from(codingChallenges)
+        .where(eq(codingChallenges.id, data.challengeId))
+        .limit(1);
+      
+      if (!challenge) {
+        return res.status(404).json({ error: "Challenge not found" });
+      }
+      
+      const testCases = getTestCases(challenge);
+      if (testCases.length === 0) {
+        return res.status(400).json({ error: "Challenge has no test cases" });
+      }
+      
+      const release = reserveRun(req.user!.id);
+      let grading;
+      try {
+        grading = await gradeSubmission({
+          code: data.code,
+          language: data.language,
+          testCases,
+          hintsUsed: data.hintsUsed ?? 0,
+        });
+      } finally {
+        release();
+      }
+      const { score, rank } = grading;
+      
+      // The submission and the stats it feeds are saved together or not at all.
+      const submission = await db.transaction(async (tx) => {
+        const [submission] = await tx.insert(challengeSubmissions).values({
+          ...data,
+          score,
+          rank,
+          testResults: grading.testResults,
+          feedback: grading.feedback,
+          strengths: grading.strengths,
+          improvements: grading.improvements,
+          executionTimeMs: grading.executionTimeMs,
+        }).returning();
+        await recordSubmission(tx, submission, challenge);
+        return submission;
+      });
+      
+      res.json({
+        ...submission,
+        passedCount: grading.passedCount,
+        totalCount: grading.totalCount,
+      });
+    } catch (error: any) {
+      if (error instanceof HttpError) {
+        if (error.details?.retryAfter) res.set("Retry-After", String(error.details.retryAfter));
+        return res.status(error.status).json({ error: error.message, ...error.details });
+      }
+      console.error("Error submitting challenge:", error);
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/leaderboard", async (req, res) => {
+    try {
+      const parsed = leaderboardQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      
+      res.json(await getLeaderboard(parsed.data));
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error fetching leaderboard:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/leaderboard/me", requireAuth, async (req, res) => {
+    try {
+      const parsed = leaderboardQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      
+      res.json(await getLeaderboardPosition(parsed.data, req.user!.id));
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error fetching leaderboard position:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/support-tickets", requireAuth, async (req, res) => {
+    try {
+      const user = req.user!;
+      const data = insertSupportTicketSchema.parse({
+        ...req.body,
+        userId: user.id,
+        userEmail: user.email ?? req.body.userEmail,
+        username: await resolveUsername(user),
+      });
+      
+      const ticket = await createTicket(data, user);
+      
+      res.json(ticket);
+    } catch (error: any) {
+      console.error("Error creating support ticket:", error);
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/support-tickets", requireAuth, async (req, res) => {
+    try {
+      const { status } = req.query;
+      
+      res.json(await listOwnTickets(req.user!.id, status ? String(status) : undefined));
+    } catch (error) {
+      console.error("Error fetching support tickets:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/support-tickets/:ticketId", requireAuth, async (req, res) => {
+    try {
+      const ticket = await loadTicket(req.params.ticketId, req.user);
+      
+      res.json(await getTicketThread(ticket));
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error fetching support ticket:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/support-tickets/:ticketId/replies", requireAuth, async (req, res) => {
+    try {
+      const ticket = await loadTicket(req.params.ticketId, req.user);
+      const parsed = ticketReplySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      
+      res.status(201).json(await addReply(ticket.id, req.user!, parsed.data));
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error replying to support ticket:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.patch("/api/support-tickets/:ticketId", requireAuth, async (req, res) => {
+    try {
+      const ticket = await loadTicket(req.params.ticketId, req.user);
+      const parsed = updateTicketSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      
+      res.json(await updateTicket(ticket.id, req.user!, parsed.data));
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message, ...error.details });
+      }
+      console.error("Error updating support ticket:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/admin/support-tickets", requireAdmin, async (req, res) => {
+    try {
+      res.json(await listTicketQueue(req.query, req.user!));
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error fetching support queue:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/support-tickets/:ticketId/attachments", requireAuth, async (req, res) => {
+    try {
+      const ticket = await loadTicket(req.params.ticketId, req.user);
+      
+      const attachment = await storeAttachment(await readUpload(req), { ticketId: ticket.id }, req.user!.id);
+      const entry = {
+        id: attachment.id,
+        fileName: attachment.fileName,
+        contentType: attachment.contentType,
+        size: attachment.size,
+      };
+      await db
+        .update(supportTickets)
+        .set({
+          attachments: sql`coalesce(${supportTickets.attachments}, '[]'::jsonb) || ${JSON.stringify([entry])}::jsonb`,
+          updatedAt: new Date(),
+        })
+        .where(eq(supportTickets.id, ticket.id));
+      
+      res.status(201).json(toPublicAttachment(attachment));
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error uploading ticket attachment:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/attachments/:attachmentId", async (req, res) => {
+    try {
+      const attachment = await loadAttachment(req.params.attachmentId, req.user);
+      const original = signedAttachmentUrl(attachment.id);
+      
+      res.json({
+        ...toPublicAttachment(attachment),
+        url: original.url,
+        thumbnailUrl: attachment.thumbnailKey ? signedAttachmentUrl(attachment.id, "thumbnail").url : null,
+        expiresAt: original.expiresAt,
+      });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error fetching attachment:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Authorised by the signature in the query string rather than a session.
+  app.get("/api/attachments/:attachmentId/download", async (req, res) => {
+    try {
+      const variant = verifyAttachmentSignature(req.params.attachmentId, req.query);
+      const { attachment, contentType, stream } = await openAttachment(req.params.attachmentId, variant);
+      
+      const inline = variant === "thumbnail" || isImageAttachment(attachment) || attachment.contentType === "application/pdf";
+      res.setHeader("Content-Type", contentType.startsWith("text/") ? `${contentType}; charset=utf-8` : contentType);
+      res.setHeader("Content-Disposition", `${inline ? "inline" : "attachment"}; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`);
+      res.setHeader("X-Content-Type-Options", "nosniff");
+      res.setHeader("Content-Security-Policy", "default-src 'none'; sandbox");
+      res.setHeader("Cache-Control", "private, max-age=300");
+      if (variant === "original") {
+        res.setHeader("Content-Length", String(attachment.size));
+      }
+      
+      stream.on("error", (error) => {
+        console.error("Error streaming attachment:", error);
+        res.destroy(error);
+      });
+      stream.pipe(res);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error downloading attachment:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/daily/room", requireAuth, async (req, res) => {
+    try {
+      const { snippetId } = req.body;
+      
+      if (!snippetId) {
+        return res.status(400).json({ error: "snippetId is required" });
+      }
+      await loadSnippetById(snippetId, req.user, "read");
+      
+      // Reuses the snippet's active room rather than opening a second one.
+      const call = await ensureActiveCall(snippetId, req.user!.id);
+      
+      res.json(call);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error creating video call:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/snippets/:snippetId/call", async (req, res) => {
+    try {
+      const snippet = await loadSnippetById(req.params.snippetId, req.user, "read");
+      const call = await getActiveCall(snippet.id);
+      
+      if (!call) {
+        return res.status(404).json({ error: "There is no active call on this snippet" });
+      }
+      
+      res.json(await withParticipants(call));
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error fetching video call:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/snippets/:snippetId/call/join", requireAuth, async (req, res) => {
+    try {
+      const snippet = await loadSnippetById(req.params.snippetId, req.user, "read");
+      
+      res.json(await joinCall(snippet, req.user!));
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error joining video call:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/snippets/:snippetId/call/leave", requireAuth, async (req, res) => {
+    try {
+      const snippet = await loadSnippetById(req.params.snippetId, req.user, "read");
+      
+      res.json(await leaveCall(snippet, req.user!));
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error leaving video call:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/snippets/:snippetId/call/end", requireAuth, async (req, res) => {
+    try {
+      const snippet = await loadSnippetById(req.params.snippetId, req.user, "read");
+      
+      res.json(await endCallForUser(snippet, req.user!));
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error ending video call:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Called by the video provider; authenticated by the request signature.
+  app.post("/api/webhooks/video", async (req, res) => {
+    try {
+      const provider = getVideoProvider();
+      if (!req.rawBody || !provider.verifyWebhook(req.rawBody, req.headers)) {
+        return res.status(401).json({ error: "Invalid webhook signature" });
+      }
+      
+      const event = provider.parseWebhook(req.body);
+      const applied = event ? await applyVideoEvent(event) : false;
+      
+      res.json({ received: true, applied });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error handling video webhook:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/code/execute", requireAuth, async (req, res) => {
+    try {
+      const parsed = executeCodeRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+
+      const { projectId, ...request } = parsed.data;
+      let env: Record<string, string> | undefined;
+      if (projectId) {
+        const { project } = await loadProject(projectId, req.user, "editor");
+        env = await loadProjectSecretEnv(project.id);
+      }
+
+      const release = reserveRun(req.user!.id);
+      let result;
+      try {
+        result = await executeCode({ ...request, env });
+      } finally {
+        release();
+      }
+
+      res.json({ ...result, output: result.stdout });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        if (error.details?.retryAfter) res.set("Retry-After", String(error.details.retryAfter));
+        return res.status(error.status).json({ error: error.message, ...error.details });
+      }
+      if (error instanceof ExecutionError) {
+        return res.status(400).json({ error: error.message, code: error.code });
+      }
+      console.error("Error executing code:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/code/format", async (req, res) => {
+    try {
+      const parsed = formatCodeRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      const { code, language, projectId, apply, options } = parsed.data;
+      
+      if (projectId) {
+        const { project } = await loadProject(projectId, req.user, apply ? "editor" : "viewer");
+        return res.json(await formatProject(project.id, options, apply));
+      }
+      
+      res.json(await formatCode(code!, language!, options));
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message, ...error.details });
+      }
+      console.error("Error formatting code:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Streams as server-sent events (delta, suggestions, done) unless the body
+  // sets stream: false, in which case the whole result is returned as JSON.
+  app.post("/api/code/assist", requireAuth, async (req, res) => {
+    const controller = new AbortController();
+    res.on("close", () => {
+      if (!res.writableEnded) controller.abort();
+    });
+    const send = (event: string, data: unknown) => {
+      if (!res.headersSent) {
+        res.writeHead(200, {
+          "Content-Type": "text/event-stream",
+          "Cache-Control": "no-cache",
+          Connection: "keep-alive",
+        });
+      }
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+    
+    try {
+      const parsed = assistRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      const stream = parsed.data.stream !== false;
+      
+      const result = await runAssist(parsed.data, req.user!, {
+        signal: controller.signal,
+        onDelta: stream ? (text) => send("delta", { text }) : undefined,
+      });
+      
+      if (!stream) {
+        return res.json(result);
+      }
+      send("suggestions", result.suggestions);
+      send("done", { mode: result.mode, model: result.model, usage: result.usage });
+      res.end();
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      if (res.headersSent) {
+        if (!(error instanceof HttpError)) console.error("Error with code assist:", error);
+        send("error", { error: error instanceof HttpError ? error.message : "Internal server error" });
+        return res.end();
+      }
+      if (error instanceof HttpError) {
+        if (error.details?.retryAfter) res.set("Retry-After", String(error.details.retryAfter));
+        return res.status(error.status).json({ error: error.message, ...error.details });
+      }
+      console.error("Error with code assist:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/projects", requireAuth, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      
+      const userProjects = await db
+        .select({ project: projects, role: projectCollaborators.role })
+        .from(projects)
+        .leftJoin(projectCollaborators, and(
+          eq(projectCollaborators.projectId, projects.id),
+          eq(projectCollaborators.userId, userId),
+        ))
+        .where(or(eq(projects.ownerId, userId), eq(projectCollaborators.userId, userId)))
+        .orderBy(desc(projects.updatedAt));
+      
+      res.json(userProjects.map(({ project, role }) => ({
+        ...project,
+        role: project.ownerId === userId ? "owner" : role,
+      })));
+    } catch (error) {
+      console.error("Error fetching projects:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/projects", requireAuth, async (req, res) => {
+    try {
+      const data = insertProjectSchema.parse({
+        ...req.body,
+        ownerId: req.user!.id,
+      });
+      
+      const [project] = await db.insert(projects).values(data).returning();
+      
+      res.status(201).json({ ...project, role: "owner" });
+    } catch (error: any) {
+      console.error("Error creating project:", error);
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/projects/:projectId", requireAuth, async (req, res) => {
+    try {
+      const { project, role } = await loadProject(req.params.projectId, req.user, "viewer");
+      
+      res.json({ ...project, role });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error fetching project:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.patch("/api/projects/:projectId", requireAuth, async (req, res) => {
+    try {
+      const { project: existing } = await loadProject(req.params.projectId, req.user, "owner");
+      const { name, description, githubRepoUrl, githubOwner, githubRepo, githubBranch } = req.body;
+      
+      if (name !== undefined && (typeof name !== "string" || name.trim() === "")) {
+        return res.status(400).json({ error: "name cannot be empty" });
+      }
+      
+      const [project] = await db
+        .update(projects)
+        .set({
+          name: name?.trim(),
+          description,
+          githubRepoUrl,
+          githubOwner,
+          githubRepo,
+          githubBranch,
+          updatedAt: new Date(),
+        })
+        .where(eq(projects.id, existing.id))
+        .returning();
+      
+      res.json({ ...project, role: "owner" });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error updating project:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/projects/:projectId", requireAuth, async (req, res) => {
+    try {
+      const { project } = await loadProject(req.params.projectId, req.user, "owner");
+      
+      await db.delete(projects).where(eq(projects.id, project.id));
+      
+      res.status(204).end();
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error deleting project:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/projects/:projectId/collaborators", requireAuth, async (req, res) => {
+    try {
+      const { project } = await loadProject(req.params.projectId, req.user, "viewer");
+      
+      const collaborators = await db
+        .select()
+        .from(projectCollaborators)
+        .where(eq(projectCollaborators.projectId, project.id))
+        .orderBy(projectCollaborators.createdAt);
+      
+      res.json(collaborators);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error fetching project collaborators:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.put("/api/projects/:projectId/collaborators/:userId", requireAuth, async (req, res) => {
+    try {
+      const { project } = await loadProject(req.params.projectId, req.user, "owner");
+      const { role } = req.body;
+      
+      if (role !== "viewer" && role !== "editor") {
+        return res.status(400).json({ error: 'role must be "viewer" or "editor"' });
+      }
+      if (req.params.userId === project.ownerId) {
+        return res.status(400).json({ error: "The owner cannot be added as a collaborator" });
+      }
+      
+      const [collaborator] = await db
+        .insert(projectCollaborators)
+        .values({ projectId: project.id, userId: req.params.userId, role })
+        .onConflictDoUpdate({
+          target: [projectCollaborators.projectId, projectCollaborators.userId],
+          set: { role },
+        })
+        .returning();
+      
+      res.json(collaborator);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error saving project collaborator:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/projects/:projectId/collaborators/:userId", requireAuth, async (req, res) => {
+    try {
+      const { project } = await loadProject(req.params.projectId, req.user, "owner");
+      
+      await db
+        .delete(projectCollaborators)
+        .where(and(
+          eq(projectCollaborators.projectId, project.id),
+          eq(projectCollaborators.userId, req.params.userId),
+        ));
+      
+      res.status(204).end();
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error removing project collaborator:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/projects/:projectId/files", requireAuth, async (req, res) => {
+    try {
+      await loadProject(req.params.projectId, req.user, "viewer");
+      
+      const files = await db
+        .select()
+        .from(projectFiles)
+        .where(eq(projectFiles.projectId, req.params.projectId))
+        .orderBy(projectFiles.path);
+      
+      res.json(files);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error fetching project files:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/projects/:projectId/files", requireAuth, async (req, res) => {
+    try {
+      const { project } = await loadProject(req.params.projectId, req.user, "editor");
+      const { name, type, parentFolderId, content, language } = req.body;
+      
+      const file = await createProjectFile(project.id, { name, type, parentFolderId, content, language });
+      
+      res.status(201).json(file);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error creating project file:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/projects/:projectId/files/:fileId", requireAuth, async (req, res) => {
+    try {
+      const { project } = await loadProject(req.params.projectId, req.user, "viewer");
+      
+      const [file] = await db
+        .select()
+        .from(projectFiles)
+        .where(and(eq(projectFiles.projectId, project.id), eq(projectFiles.id, req.params.fileId)))
+        .limit(1);
+      
+      if (!file) {
+        return res.status(404).json({ error: "File not found" });
+      }
+      
+      res.json(file);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error fetching project file:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.patch("/api/projects/:projectId/files/:fileId", requireAuth, async (req, res) => {
+    try {
+      const { project } = await loadProject(req.params.projectId, req.user, "editor");
+      const parsed = updateProjectFileSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      if (Object.values(parsed.data).every((value) => value === undefined)) {
+        return res.status(400).json({ error: "Nothing to update" });
+      }
+      
+      res.json(await updateProjectFile(project.id, req.params.fileId, parsed.data));
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error updating project file:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/projects/:projectId/files/:fileId", requireAuth, async (req, res) => {
+    try {
+      const { project } = await loadProject(req.params.projectId, req.user, "editor");
+      
+      res.json(await deleteProjectFile(project.id, req.params.fileId));
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error deleting project file:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/projects/:projectId/export", requireAuth, async (req, res) => {
+    try {
+      const { project } = await loadProject(req.params.projectId, req.user, "viewer");
+      const parsed = projectExportQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      
+      const { fileName, contentType, stream } = await exportProjectArchive(project, parsed.data.format ?? "zip");
+      res.setHeader("Content-Type", contentType);
+      res.setHeader("Content-Disposition", `attachment; filename*=UTF-8''${encodeURIComponent(fileName)}`);
+      stream.on("error", (error) => {
+        console.error("Error streaming project archive:", error);
+        res.destroy(error);
+      });
+      stream.pipe(res);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error exporting project:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/projects/import", requireAuth, async (req, res) => {
+    try {
+      const upload = await readUpload(req, MAX_ARCHIVE_BYTES);
+      const fields = archiveImportFieldsSchema.safeParse(upload.fields);
+      if (!fields.success) {
+        return res.status(400).json({ error: fields.error.message });
+      }
+      
+      const contents = await readArchive(upload);
+      res.status(201).json(await createProjectFromArchive(req.user!, upload, contents, fields.data));
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error importing project archive:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/projects/:projectId/import", requireAuth, async (req, res) => {
+    try {
+      const { project } = await loadProject(req.params.projectId, req.user, "owner");
+      const upload = await readUpload(req, MAX_ARCHIVE_BYTES);
+      const fields = archiveImportFieldsSchema.safeParse(upload.fields);
+      if (!fields.success) {
+        return res.status(400).json({ error: fields.error.message });
+      }
+      
+      const contents = await readArchive(upload);
+      res.status(201).json(await importArchiveIntoProject(project, contents, fields.data.replace === "true"));
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error importing archive into project:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // GitHub sync. Calls that reach GitHub need the user's personal token in
+  // X-GitHub-Token.
+  app.post("/api/projects/:projectId/github/import", requireAuth, async (req, res) => {
+    try {
+      const { project } = await loadProject(req.params.projectId, req.user, "owner");
+      const { repoUrl, branch, replace } = req.body;
+      
+      const repository = repoUrl
+        ? parseRepoUrl(String(repoUrl))
+        : { owner: req.body.owner ?? project.githubOwner, repo: req.body.repo ?? project.githubRepo };
+      if (typeof repository.owner !== "string" || typeof repository.repo !== "string") {
+        return res.status(400).json({ error: "repoUrl, or owner and repo, are required" });
+      }
+      
+      const result = await importFromGitHub(project, {
+        ...repository,
+        branch: typeof branch === "string" && branch ? branch : project.githubBranch || "main",
+        replace: replace === true,
+        token: req.get("x-github-token"),
+      });
+      
+      res.status(201).json(result);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message, ...error.details });
+      }
+      console.error("Error importing from GitHub:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/projects/:projectId/github/pull", requireAuth, async (req, res) => {
+    try {
+      const { project } = await loadProject(req.params.projectId, req.user, "editor");
+      const { resolve } = req.body;
+      
+      if (resolve !== undefined && resolve !== "ours" && resolve !== "theirs") {
+        return res.status(400).json({ error: 'resolve must be "ours" or "theirs"' });
+      }
+      
+      res.json(await pullFromGitHub(project, { resolve, token: req.get("x-github-token") }));
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message, ...error.details });
+      }
+      console.error("Error pulling from GitHub:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/projects/:projectId/github/push", requireAuth, async (req, res) => {
+    try {
+      const { project } = await loadProject(req.params.projectId, req.user, "editor");
+      const { message } = req.body;
+      
+      if (typeof message !== "string" || message.trim() === "") {
+        return res.status(400).json({ error: "A commit message is required" });
+      }
+      
+      res.json(await pushToGitHub(project, { message: message.trim(), token: req.get("x-github-token") }));
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message, ...error.details });
+      }
+      console.error("Error pushing to GitHub:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/projects/:projectId/github/status", requireAuth, async (req, res) => {
+    try {
+      const { project } = await loadProject(req.params.projectId, req.user, "viewer");
+      
+      res.json(await getGitHubStatus(project, {
+        remote: req.query.remote === "true",
+        token: req.get("x-github-token"),
+      }));
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error fetching GitHub status:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/projects/:projectId/secrets", requireAuth, async (req, res) => {
+    try {
+      const { project } = await loadProject(req.params.projectId, req.user, "editor");
+      
+      res.json(await listProjectSecrets(project.id));
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error fetching project secrets:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/projects/:projectId/secrets", requireAuth, async (req, res) => {
+    try {
+      const { project } = await loadProject(req.params.projectId, req.user, "editor");
+      const { key, value } = req.body;
+      
+      res.status(201).json(await createProjectSecret(project.id, { key, value }));
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error creating project secret:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.patch("/api/projects/:projectId/secrets/:secretId", requireAuth, async (req, res) => {
+    try {
+      const { project } = await loadProject(req.params.projectId, req.user, "editor");
+      
+      res.json(await updateProjectSecret(project.id, req.params.secretId, { value: req.body.value }));
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error updating project secret:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/projects/:projectId/secrets/:secretId", requireAuth, async (req, res) => {
+    try {
+      const { project } = await loadProject(req.params.projectId, req.user, "editor");
+      
+      await deleteProjectSecret(project.id, req.params.secretId);
+      
+      res.status(204).end();
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error deleting project secret:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/account/export", requireAuth, async (req, res) => {
+    try {
+      const data = await exportUserData(req.user!);
+      const fileName = `coderfile-export-${data.exportedAt.toISOString().slice(0, 10)}.json`;
+      
+      res.setHeader("Content-Disposition", `attachment; filename*=UTF-8''${encodeURIComponent(fileName)}`);
+      res.json(data);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error exporting account data:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/account/email", requireAuth, async (req, res) => {
+    try {
+      res.json(await getAccountEmail(req.user!));
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error fetching account email:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Also used to resend; repeated requests are subject to a cooldown.
+  app.post("/api/account/email/verification", requireAuth, async (req, res) => {
+    try {
+      res.status(202).json(await sendEmailVerification(req.user!));
+    } catch (error) {
+      if (error instanceof HttpError) {
+        if (error.details?.retryAfter) res.set("Retry-After", String(error.details.retryAfter));
+        return res.status(error.status).json({ error: error.message, ...error.details });
+      }
+      console.error("Error sending verification email:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/account/email/verify", async (req, res) => {
+    try {
+      const parsed = verificationTokenSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      
+      res.json(await confirmEmailVerification(parsed.data.token));
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error verifying email:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/account/email/change", requireAuth, async (req, res) => {
+    try {
+      const parsed = emailAddressSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      
+      res.status(202).json(await requestEmailChange(req.user!, parsed.data.email));
+    } catch (error) {
+      if (error instanceof HttpError) {
+        if (error.details?.retryAfter) res.set("Retry-After", String(error.details.retryAfter));
+        return res.status(error.status).json({ error: error.message, ...error.details });
+      }
+      console.error("Error requesting email change:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/account/email/change/confirm", async (req, res) => {
+    try {
+      const parsed = verificationTokenSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      
+      res.json(await confirmEmailChange(parsed.data.token));
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error confirming email change:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/account/password/forgot", async (req, res) => {
+    try {
+      const parsed = emailAddressSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      
+      requestPasswordReset(parsed.data.email);
+      res.status(202).json({ message: "If that address belongs to a verified account, a reset link is on its way" });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error requesting password reset:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/account/password/reset", async (req, res) => {
+    try {
+      const parsed = passwordResetSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      
+      await resetPassword(parsed.data.token, parsed.data.password);
+      res.json({ success: true });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error resetting password:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/profile", requireAuth, async (req, res) => {
+    try {
+      res.json(await getOwnProfile(req.user!));
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error fetching profile:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.put("/api/profile/username", requireAuth, async (req, res) => {
+    try {
+      const parsed = claimUsernameSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      
+      res.json(await claimUsername(req.user!, parsed.data.username));
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error claiming username:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/usernames/:username/availability", async (req, res) => {
+    try {
+      res.json(await checkUsername(req.params.username, req.user?.id));
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error checking username:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.put("/api/profile/avatar", requireAuth, async (req, res) => {
+    try {
+      const upload = await readUpload(req, MAX_AVATAR_BYTES);
+      res.json(await setAvatar(req.user!, upload));
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error uploading avatar:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/profile/avatar", requireAuth, async (req, res) => {
+    try {
+      await removeAvatar(req.user!);
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error removing avatar:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Each upload gets a new URL (see setAvatar), so responses can be cached for good.
+  app.get("/api/users/:userId/avatar", async (req, res) => {
+    try {
+      const stream = await openAvatar(req.params.userId);
+      
+      res.setHeader("Content-Type", "image/webp");
+      res.setHeader("X-Content-Type-Options", "nosniff");
+      res.setHeader("Cache-Control", "public, max-age=31536000, immutable");
+      stream.on("error", (error) => {
+        console.error("Error streaming avatar:", error);
+        res.destroy(error);
+      });
+      stream.pipe(res);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error fetching avatar:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/profiles", async (req, res) => {
+    try {
+      const parsed = profileSearchSchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
+      
+      res.json(await searchProfiles(parsed.data.q, parsed.data.limit));
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error searching profiles:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/profiles/:username", async (req, res) => {
+    try {
+      res.json(await getPublicProfile(req.params.username));
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error fetching public profile:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/users/:userId/stats", async (req, res) => {
+    try {
+      const [stats] = await db
+        .select()
+        .from(userPracticeStats)
+        .where(eq(userPracticeStats.userId, req.params.userId))
+        .limit(1);
+      
+      res.json(stats ? withEffectiveStreak(stats) : {
+        userId: req.params.userId,
+        totalChallenges: 0,
+        totalSubmissions: 0,
+        averageScore: "0.00",
+        totalPoints: 0,
+        currentStreak: 0,
+        longestStreak: 0,
+      });
+    } catch (error) {
+      console.error("Error fetching user stats:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/maintenance/stats/recompute", requireAdmin, async (req, res) => {
+    try {
+      const { userId } = req.body ?? {};
+      
+      if (userId) {
+        const { stats, submissionsProcessed } = await recomputeUserStats(userId);
+        return res.json({ usersProcessed: 1, submissionsProcessed, stats });
+      }
+      
+      res.json(await recomputeAllStats());
+    } catch (error) {
+      console.error("Error recomputing stats:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/maintenance/secrets/rotate", requireAdmin, async (req, res) => {
+    try {
+      res.json(await rotateSecretKeys());
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Error rotating secret keys:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/admin/sweeper", requireAdmin, (req, res) => {
+    res.json(sweeperMetrics);
+  });
 }
@@ -0,0 +1,256 @@
+import { createCipheriv, createDecipheriv, randomBytes } from "crypto";
+import { and, asc, eq, gt, isNull, ne, or } from "drizzle-orm";
+import { db } from "./db";
+import { projectSecrets, type ProjectSecret } from "@shared/schema";
+import { HttpError } from "./errors";
+
+/*
+ * Envelope encryption: every secret value is encrypted with its own random
+ * data key (DEK), and the DEK is stored wrapped by a master key from
+ * SECRETS_MASTER_KEYS. That variable is a comma-separated list of
+ * `keyId:base64key` pairs; the first key wraps new DEKs and the rest are kept
+ * so existing rows stay readable until `rotateSecretKeys` re-wraps them.
+ */
+const MAX_SECRET_NAME_LENGTH = 128;
+const MAX_SECRET_VALUE_BYTES = 32 * 1024;
+const ROTATION_BATCH_SIZE = 200;
+// Set by the executor itself; a secret with one of these names would be ignored.
+// The rest change what a runtime loads before the submitted code runs.
+const RESERVED_NAMES = new Set([
+  "PATH", "HOME", "TMPDIR", "LANG", "PYTHONIOENCODING",
+  "NODE_OPTIONS", "NODE_PATH", "NODE_REPL_EXTERNAL_MODULE",
+  "PYTHONPATH", "PYTHONSTARTUP", "PYTHONHOME", "PYTHONUSERBASE", "PYTHONINSPECT",
+  "LD_PRELOAD", "LD_LIBRARY_PATH", "LD_AUDIT", "BASH_ENV", "ENV",
+]);
+
+interface MasterKeys {
+  activeId: string;
+  keys: Map<string, Buffer>;
+}
+
+let masterKeys: MasterKeys | undefined;
+
+function loadMasterKeys(): MasterKeys {
+  if (masterKeys) return masterKeys;
+
+  const raw = process.env.SECRETS_MASTER_KEYS;
+  if (!raw) {
+    throw new HttpError(503, "Project secrets are not configured on this server");
+  }
+
+  const keys = new Map<string, Buffer>();
+  for (const pair of raw.split(",").map((part) => part.trim()).filter(Boolean)) {
+    const separator = pair.indexOf(":");
+    const id = pair.slice(0, separator);
+    const key = Buffer.from(pair.slice(separator + 1), "base64");
+    if (separator <= 0 || key.length !== 32) {
+      throw new Error("SECRETS_MASTER_KEYS entries must be keyId:<32 bytes of base64>");
+    }
+    keys.set(id, key);
+  }
+
+  masterKeys = { activeId: keys.keys().next().value!, keys };
+  return masterKeys;
+}
+
+// Serialized as base64(iv).base64(tag).base64(ciphertext).
+function seal(key: Buffer, plaintext: Buffer, aad: string) {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  cipher.setAAD(Buffer.from(aad));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString("base64")).join(".");
+}
+
+function open(key: Buffer, sealed: string, aad: string) {
+  const [iv, tag, ciphertext] = sealed.split(".").map((part) => Buffer.from(part, "base64"));
+  const decipher = createDecipheriv("aes-256-gcm", key, iv);
+  decipher.setAAD(Buffer.from(aad));
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+function masterKey(keyId: string) {
+  const key = loadMasterKeys().keys.get(keyId);
+  if (!key) {
+    throw new Error(`Master key "${keyId}" is not in SECRETS_MASTER_KEYS`);
+  }
+  return key;
+}
+
+// Values are bound to their project so a row copied elsewhere will not decrypt.
+function encryptValue(projectId: string, value: string) {
+  const { activeId } = loadMasterKeys();
+  const dek = randomBytes(32);
+  return {
+    secretValue: seal(dek, Buffer.from(value, "utf8"), projectId),
+    wrappedKey: seal(masterKey(activeId), dek, activeId),
+    keyId: activeId,
+  };
+}
+
+function decryptValue(secret: ProjectSecret) {
+  if (!secret.keyId || !secret.wrappedKey) {
+    return secret.secretValue;
+  }
+  const dek = open(masterKey(secret.keyId), secret.wrappedKey, secret.keyId);
+  return open(dek, secret.secretValue, secret.projectId).toString("utf8");
+}
+
+export function maskSecret(value: string) {
+  return value.length >= 12 ? `••••${value.slice(-4)}` : "••••••••";
+}
+
+export function validateSecretName(name: unknown): string {
+  if (typeof name !== "string" || !/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+    throw new HttpError(400, "Secret names must be valid environment variable names");
+  }
+  if (name.length > MAX_SECRET_NAME_LENGTH) {
+    throw new HttpError(400, `Secret names are limited to ${MAX_SECRET_NAME_LENGTH} characters`);
+  }
+  if (RESERVED_NAMES.has(name)) {
+    throw new HttpError(400, `${name} is reserved`);
+  }
+  return name;
+}
+
+function validateSecretValue(value: unknown): string {
+  if (typeof value !== "string") {
+    throw new HttpError(400, "A secret value is required");
+  }
+  if (Buffer.byteLength(value, "utf8") > MAX_SECRET_VALUE_BYTES) {
+    throw new HttpError(400, `Secret values are limited to ${MAX_SECRET_VALUE_BYTES / 1024}KB`);
+  }
+  return value;
+}
+
+/** The shape returned by the API; plaintext never leaves this module. */
+export function toPublicSecret(secret: ProjectSecret) {
+  return {
+    id: secret.id,
+    projectId: secret.projectId,
+    key: secret.secretKey,
+    preview: secret.valuePreview ?? "••••••••",
+    createdAt: secret.createdAt,
+    updatedAt: secret.updatedAt,
+  };
+}
+
+export async function listProjectSecrets(projectId: string) {
+  const secrets = await db
+    .select()
+    .from(projectSecrets)
+    .where(eq(projectSecrets.projectId, projectId))
+    .orderBy(asc(projectSecrets.secretKey));
+  return secrets.map(toPublicSecret);
+}
+
+export async function createProjectSecret(projectId: string, input: { key: unknown; value: unknown }) {
+  const secretKey = validateSecretName(input.key);
+  const value = validateSecretValue(input.value);
+
+  const [created] = await db
+    .insert(projectSecrets)
+    .values({ projectId, secretKey, ...encryptValue(projectId, value), valuePreview: maskSecret(value) })
+    .onConflictDoNothing()
+    .returning();
+
+  if (!created) {
+    throw new HttpError(409, `Secret ${secretKey} already exists`);
+  }
+  return toPublicSecret(created);
+}
+
+export async function updateProjectSecret(projectId: string, secretId: string, input: { value: unknown }) {
+  const value = validateSecretValue(input.value);
+
+  const [updated] = await db
+    .update(projectSecrets)
+    .set({ ...encryptValue(projectId, value), valuePreview: maskSecret(value), updatedAt: new Date() })
+    .where(and(eq(projectSecrets.projectId, projectId), eq(projectSecrets.id, secretId)))
+    .returning();
+
+  if (!updated) {
+    throw new HttpError(404, "Secret not found");
+  }
+  return toPublicSecret(updated);
+}
+
+export async function deleteProjectSecret(projectId: string, secretId: string) {
+  const [deleted] = await db
+    .delete(projectSecrets)
+    .where(and(eq(projectSecrets.projectId, projectId), eq(projectSecrets.id, secretId)))
+    .returning({ id: projectSecrets.id });
+
+  if (!deleted) {
+    throw new HttpError(404, "Secret not found");
+  }
+}
+
+/** Decrypts a project's secrets into an environment for code execution. */
+export async function loadProjectSecretEnv(projectId: string): Promise<Record<string, string>> {
+  const secrets = await db
+    .select()
+    .from(projectSecrets)
+    .where(eq(projectSecrets.projectId, projectId));
+
+  const env: Record<string, string> = {};
+  for (const secret of secrets) {
+    // Saved before the name was reserved.
+    if (RESERVED_NAMES.has(secret.secretKey)) continue;
+    env[secret.secretKey] = decryptValue(secret);
+  }
+  return env;
+}
+
+/**
+ * Re-wraps every data key not under the active master key, and encrypts any
+ * plaintext rows left from before encryption. Values themselves are only
+ * re-encrypted for those plaintext rows. A row with a key id but no wrapped
+ * key cannot be decrypted or re-wrapped; it is left alone and reported in
+ * `skipped`.
+ */
+export async function rotateSecretKeys() {
+  const { activeId } = loadMasterKeys();
+  const result = { rewrapped: 0, encrypted: 0, skipped: [] as { id: string; projectId: string }[] };
+
+  // Walks the rows by id, so ones left unchanged are not fetched again.
+  let lastId: string | undefined;
+  for (;;) {
+    const batch = await db
+      .select()
+      .from(projectSecrets)
+      .where(and(
+        or(isNull(projectSecrets.keyId), ne(projectSecrets.keyId, activeId)),
+        lastId ? gt(projectSecrets.id, lastId) : undefined,
+      ))
+      .orderBy(asc(projectSecrets.id))
+      .limit(ROTATION_BATCH_SIZE);
+    if (batch.length === 0) break;
+    lastId = batch[batch.length - 1].id;
+
+    for (const secret of batch) {
+      if (!secret.keyId) {
+        await db
+          .update(projectSecrets)
+          .set({ ...encryptValue(secret.projectId, secret.secretValue), valuePreview: maskSecret(secret.secretValue) })
+          .where(and(eq(projectSecrets.id, secret.id), isNull(projectSecrets.keyId)));
+        result.encrypted += 1;
+        continue;
+      }
+      if (!secret.wrappedKey) {
+        result.skipped.push({ id: secret.id, projectId: secret.projectId });
+        continue;
+      }
+
+      const dek = open(masterKey(secret.keyId), secret.wrappedKey, secret.keyId);
+      await db
+        .update(projectSecrets)
+        .set({ wrappedKey: seal(masterKey(activeId), dek, activeId), keyId: activeId })
+        .where(and(eq(projectSecrets.id, secret.id), eq(projectSecrets.keyId, secret.keyId)));
+      result.rewrapped += 1;
+    }
+  }
+
+  return result;
+}
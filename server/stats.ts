@@ -0,0 +1,278 @@
+import { db } from "./db";
+import {
+  challengeSubmissions,
+  codingChallenges,
+  userChallengeHistory,
+  userPracticeStats,
+  type ChallengeSubmission,
+  type CodingChallenge,
+} from "@shared/schema";
+import { asc, eq, and, sql } from "drizzle-orm";
+import { RANK_THRESHOLDS } from "./grading";
+
+// Streak days are counted in this IANA timezone, e.g. "America/New_York".
+export const STATS_TIMEZONE = process.env.STATS_TIMEZONE || "UTC";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type PracticeStats = typeof userPracticeStats.$inferSelect;
+type Counts = Record<string, number>;
+
+interface SubmissionFacts {
+  challengeId: string;
+  score: number;
+  rank: string | null;
+  language: string;
+  difficulty: string;
+  submittedAt: Date;
+}
+
+interface PreviousAttempt {
+  bestScore: number;
+  attempts: number;
+}
+
+/** Calendar day of `date` in `timeZone`, formatted as YYYY-MM-DD. */
+export function dayKey(date: Date, timeZone = STATS_TIMEZONE): string {
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(date);
+}
+
+function daysBetween(fromKey: string, toKey: string): number {
+  const toUtc = (key: string) => {
+    const [year, month, day] = key.split("-").map(Number);
+    return Date.UTC(year, month - 1, day);
+  };
+  return Math.round((toUtc(toKey) - toUtc(fromKey)) / 86_400_000);
+}
+
+function rankOrder(rank: string | null | undefined): number {
+  const index = RANK_THRESHOLDS.findIndex((threshold) => threshold.rank === rank);
+  return index === -1 ? Number.MAX_SAFE_INTEGER : index;
+}
+
+function increment(counts: unknown, key: string): Counts {
+  const next: Counts = { ...((counts as Counts | null) ?? {}) };
+  next[key] = (next[key] ?? 0) + 1;
+  return next;
+}
+
+function emptyStats(userId: string): PracticeStats {
+  return {
+    userId,
+    totalChallenges: 0,
+    totalSubmissions: 0,
+    averageScore: "0.00",
+    bestRank: null,
+    languagesPracticed: {},
+    difficultyBreakdown: {},
+    rankDistribution: {},
+    totalPoints: 0,
+    currentStreak: 0,
+    longestStreak: 0,
+    lastSubmissionDate: null,
+    updatedAt: new Date(),
+  };
+}
+
+/*
+ * Folds one submission into a user's stats. Both the per-submission update and
+ * the rebuild from history go through this, so they always agree:
+ *
+ * - totalChallenges and difficultyBreakdown count distinct challenges attempted.
+ * - languagesPracticed and rankDistribution count submissions.
+ * - totalPoints is the sum of the best score per challenge, so resubmitting only
+ *   earns the improvement over the previous best.
+ * - A submission on the day after the last one extends the streak, one on the
+ *   same day leaves it unchanged, and anything later restarts it at 1.
+ */
+export function applySubmission(
+  stats: PracticeStats,
+  submission: SubmissionFacts,
+  previous: PreviousAttempt | null,
+  timeZone = STATS_TIMEZONE,
+): PracticeStats {
+  const totalSubmissions = (stats.totalSubmissions ?? 0) + 1;
+  const previousAverage = Number(stats.averageScore ?? 0);
+  const averageScore = (previousAverage * (totalSubmissions - 1) + submission.score) / totalSubmissions;
+
+  const today = dayKey(submission.submittedAt, timeZone);
+  let currentStreak = 1;
+  if (stats.lastSubmissionDate) {
+    const gap = daysBetween(dayKey(stats.lastSubmissionDate, timeZone), today);
+    if (gap <= 0) {
+      currentStreak = Math.max(stats.currentStreak, 1);
+    } else if (gap === 1) {
+      currentStreak = stats.currentStreak + 1;
+    }
+  }
+
+  const bestRank = submission.rank && rankOrder(submission.rank) < rankOrder(stats.bestRank)
+    ? submission.rank
+    : stats.bestRank;
+
+  return {
+    ...stats,
+    totalChallenges: (stats.totalChallenges ?? 0) + (previous ? 0 : 1),
+    totalSubmissions,
+    averageScore: averageScore.toFixed(2),
+    bestRank,
+    languagesPracticed: increment(stats.languagesPracticed, submission.language),
+    difficultyBreakdown: previous
+      ? stats.difficultyBreakdown
+      : increment(stats.difficultyBreakdown, submission.difficulty),
+    rankDistribution: submission.rank
+      ? increment(stats.rankDistribution, submission.rank)
+      : stats.rankDistribution,
+    totalPoints: stats.totalPoints + Math.max(0, submission.score - (previous?.bestScore ?? 0)),
+    currentStreak,
+    longestStreak: Math.max(stats.longestStreak, currentStreak),
+    lastSubmissionDate: stats.lastSubmissionDate && stats.lastSubmissionDate > submission.submittedAt
+      ? stats.lastSubmissionDate
+      : submission.submittedAt,
+    updatedAt: new Date(),
+  };
+}
+
+/** Reports a streak of 0 once a full day has passed without a submission. */
+export function withEffectiveStreak<T extends Pick<PracticeStats, "currentStreak" | "lastSubmissionDate">>(
+  stats: T,
+  now = new Date(),
+  timeZone = STATS_TIMEZONE,
+): T {
+  if (!stats.lastSubmissionDate) return stats;
+  const gap = daysBetween(dayKey(stats.lastSubmissionDate, timeZone), dayKey(now, timeZone));
+  return gap > 1 ? { ...stats, currentStreak: 0 } : stats;
+}
+
+function factsFor(submission: ChallengeSubmission, difficulty: string): SubmissionFacts {
+  return {
+    challengeId: submission.challengeId,
+    score: submission.score,
+    rank: submission.rank,
+    language: submission.language,
+    difficulty,
+    submittedAt: submission.submittedAt,
+  };
+}
+
+async function writeStats(tx: Transaction, stats: PracticeStats) {
+  const { userId, ...values } = stats;
+  await tx
+    .insert(userPracticeStats)
+    .values(stats)
+    .onConflictDoUpdate({ target: userPracticeStats.userId, set: values });
+}
+
+/**
+ * Updates practice stats and challenge history for one graded submission, in
+ * the transaction that inserts it.
+ */
+export async function recordSubmission(tx: Transaction, submission: ChallengeSubmission, challenge: CodingChallenge) {
+  const userId = submission.userId;
+  if (!userId) return null;
+
+  // Locking the stats row serializes concurrent submissions from one user.
+  await tx.insert(userPracticeStats).values({ userId }).onConflictDoNothing();
+  const [current] = await tx
+    .select()
+    .from(userPracticeStats)
+    .where(eq(userPracticeStats.userId, userId))
+    .for("update");
+
+  const [history] = await tx
+    .select()
+    .from(userChallengeHistory)
+    .where(and(
+      eq(userChallengeHistory.userId, userId),
+      eq(userChallengeHistory.challengeId, challenge.id),
+    ))
+    .limit(1);
+
+  const previous = history
+    ? { bestScore: history.bestScore ?? 0, attempts: history.attempts ?? 0 }
+    : null;
+  const next = applySubmission(current, factsFor(submission, challenge.difficulty), previous);
+
+  await tx
+    .insert(userChallengeHistory)
+    .values({
+      userId,
+      challengeId: challenge.id,
+      lastAttempted: submission.submittedAt,
+      bestScore: submission.score,
+      attempts: 1,
+    })
+    .onConflictDoUpdate({
+      target: [userChallengeHistory.userId, userChallengeHistory.challengeId],
+      set: {
+        lastAttempted: submission.submittedAt,
+        bestScore: sql`greatest(${userChallengeHistory.bestScore}, ${submission.score})`,
+        attempts: sql`${userChallengeHistory.attempts} + 1`,
+      },
+    });
+
+  await writeStats(tx, next);
+  return next;
+}
+
+/** Rebuilds a user's stats and challenge history from their submissions. */
+export async function recomputeUserStats(userId: string) {
+  return db.transaction(async (tx) => {
+    await tx.insert(userPracticeStats).values({ userId }).onConflictDoNothing();
+    await tx
+      .select({ userId: userPracticeStats.userId })
+      .from(userPracticeStats)
+      .where(eq(userPracticeStats.userId, userId))
+      .for("update");
+
+    const rows = await tx
+      .select({ submission: challengeSubmissions, difficulty: codingChallenges.difficulty })
+      .from(challengeSubmissions)
+      .innerJoin(codingChallenges, eq(challengeSubmissions.challengeId, codingChallenges.id))
+      .where(eq(challengeSubmissions.userId, userId))
+      .orderBy(asc(challengeSubmissions.submittedAt));
+
+    let stats = emptyStats(userId);
+    const history = new Map<string, PreviousAttempt & { lastAttempted: Date }>();
+
+    for (const { submission, difficulty } of rows) {
+      const previous = history.get(submission.challengeId) ?? null;
+      stats = applySubmission(stats, factsFor(submission, difficulty), previous);
+      history.set(submission.challengeId, {
+        bestScore: Math.max(previous?.bestScore ?? 0, submission.score),
+        attempts: (previous?.attempts ?? 0) + 1,
+        lastAttempted: submission.submittedAt,
+      });
+    }
+
+    await tx.delete(userChallengeHistory).where(eq(userChallengeHistory.userId, userId));
+    if (history.size > 0) {
+      await tx.insert(userChallengeHistory).values(
+        Array.from(history, ([challengeId, entry]) => ({ userId, challengeId, ...entry })),
+      );
+    }
+    await writeStats(tx, stats);
+
+    return { stats, submissionsProcessed: rows.length };
+  });
+}
+
+/** Rebuilds stats for every user that has at least one submission. */
+export async function recomputeAllStats() {
+  const users = await db
+    .selectDistinct({ userId: challengeSubmissions.userId })
+    .from(challengeSubmissions)
+    .where(sql`${challengeSubmissions.userId} is not null`);
+
+  let submissionsProcessed = 0;
+  for (const { userId } of users) {
+    const result = await recomputeUserStats(userId!);
+    submissionsProcessed += result.submissionsProcessed;
+  }
+
+  return { usersProcessed: users.length, submissionsProcessed };
+}
@@ -0,0 +1,107 @@
+import { createReadStream } from "fs";
+import { mkdir, rm, writeFile } from "fs/promises";
+import path from "path";
+import { Readable } from "stream";
+import { DeleteObjectCommand, GetObjectCommand, PutObjectCommand, S3Client } from "@aws-sdk/client-s3";
+import { HttpError } from "./errors";
+
+/** Where uploaded bytes live. Keys are "/"-separated and generated server-side. */
+export interface StorageBackend {
+  readonly name: string;
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Readable>;
+  delete(key: string): Promise<void>;
+}
+
+export class LocalDiskStorage implements StorageBackend {
+  readonly name = "local";
+
+  constructor(private root: string) {}
+
+  private resolve(key: string) {
+    const file = path.resolve(this.root, key);
+    if (!file.startsWith(path.resolve(this.root) + path.sep)) {
+      throw new Error(`Storage key escapes the storage root: ${key}`);
+    }
+    return file;
+  }
+
+  async put(key: string, body: Buffer) {
+    const file = this.resolve(key);
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, body);
+  }
+
+  async get(key: string) {
+    const stream = createReadStream(this.resolve(key));
+    // Surface a missing file as an error before any bytes are sent.
+    await new Promise<void>((resolve, reject) => {
+      stream.once("open", () => resolve());
+      stream.once("error", (error: NodeJS.ErrnoException) => {
+        reject(error.code === "ENOENT" ? new HttpError(404, "File not found") : error);
+      });
+    });
+    return stream;
+  }
+
+  async delete(key: string) {
+    await rm(this.resolve(key), { force: true });
+  }
+}
+
+/**
+ * Any S3-compatible service. Credentials and region come from the usual AWS_*
+ * variables; S3_ENDPOINT points at a non-AWS service such as a local stand-in.
+ */
+export class S3Storage implements StorageBackend {
+  readonly name = "s3";
+
+  constructor(private client: S3Client, private bucket: string) {}
+
+  async put(key: string, body: Buffer, contentType: string) {
+    await this.client.send(new PutObjectCommand({ Bucket: this.bucket, Key: key, Body: body, ContentType: contentType }));
+  }
+
+  async get(key: string) {
+    try {
+      const { Body } = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+      return Body as Readable;
+    } catch (error: any) {
+      if (error?.name === "NoSuchKey" || error?.$metadata?.httpStatusCode === 404) {
+        throw new HttpError(404, "File not found");
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string) {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+  }
+}
+
+function createDefaultStorage(): StorageBackend {
+  if (process.env.STORAGE_DRIVER === "s3") {
+    if (!process.env.S3_BUCKET) {
+      throw new Error("S3_BUCKET must be set when STORAGE_DRIVER is s3");
+    }
+    const client = new S3Client({
+      region: process.env.S3_REGION || process.env.AWS_REGION || "us-east-1",
+      endpoint: process.env.S3_ENDPOINT || undefined,
+      // Local stand-ins rarely support virtual-hosted bucket names.
+      forcePathStyle: Boolean(process.env.S3_ENDPOINT),
+    });
+    return new S3Storage(client, process.env.S3_BUCKET);
+  }
+  return new LocalDiskStorage(process.env.ATTACHMENTS_DIR || path.resolve("data", "attachments"));
+}
+
+let storage: StorageBackend | undefined;
+
+export function setStorageBackend(backend: StorageBackend) {
+  storage = backend;
+}
+
+export function getStorage() {
+  storage ??= createDefaultStorage();
+  return storage;
+}
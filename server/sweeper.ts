@@ -0,0 +1,149 @@
+import { and, count, inArray, isNotNull, lte } from "drizzle-orm";
+import { db } from "./db";
+import {
+  codeSnippets,
+  snippetCalls,
+  snippetCollaborators,
+  snippetMessages,
+  snippetRevisions,
+  verificationTokens,
+} from "@shared/schema";
+import { attachmentFilesForSnippets, deleteAttachmentFiles } from "./attachments";
+import { closeDocument } from "./collab";
+import { endIdleCalls } from "./calls";
+import { pruneUnlockAttempts } from "./protection";
+
+const BATCH_SIZE = 500;
+
+export interface SweepResult {
+  snippets: number;
+  messages: number;
+  collaborators: number;
+  calls: number;
+  idleCalls: number;
+  revisions: number;
+  attachments: number;
+  verificationTokens: number;
+  unlockAttempts: number;
+}
+
+const emptyResult = (): SweepResult => ({
+  snippets: 0,
+  messages: 0,
+  collaborators: 0,
+  calls: 0,
+  idleCalls: 0,
+  revisions: 0,
+  attachments: 0,
+  verificationTokens: 0,
+  unlockAttempts: 0,
+});
+
+export const sweeperMetrics = {
+  runs: 0,
+  failures: 0,
+  lastRunAt: null as Date | null,
+  lastDurationMs: null as number | null,
+  lastError: null as string | null,
+  lastResult: emptyResult(),
+  totals: emptyResult(),
+};
+
+async function countBySnippet(table: typeof snippetMessages | typeof snippetCollaborators | typeof snippetCalls | typeof snippetRevisions, ids: string[]) {
+  const [row] = await db.select({ value: count() }).from(table).where(inArray(table.snippetId, ids));
+  return row.value;
+}
+
+async function sweepSnippetBatch(now: Date, result: SweepResult) {
+  const expired = await db
+    .select({ id: codeSnippets.id })
+    .from(codeSnippets)
+    .where(and(isNotNull(codeSnippets.expiresAt), lte(codeSnippets.expiresAt, now)))
+    .limit(BATCH_SIZE);
+
+  if (expired.length === 0) return 0;
+  const ids = expired.map((row) => row.id);
+
+  // Dependent rows go with the snippet through ON DELETE CASCADE; they are
+  // counted first so the metrics show what was purged.
+  result.messages += await countBySnippet(snippetMessages, ids);
+  result.collaborators += await countBySnippet(snippetCollaborators, ids);
+  result.calls += await countBySnippet(snippetCalls, ids);
+  result.revisions += await countBySnippet(snippetRevisions, ids);
+  // Attachment rows cascade too, but their files have to be removed here.
+  const files = await attachmentFilesForSnippets(ids);
+
+  const deleted = await db
+    .delete(codeSnippets)
+    .where(and(inArray(codeSnippets.id, ids), lte(codeSnippets.expiresAt, now)))
+    .returning({ id: codeSnippets.id });
+
+  for (const { id } of deleted) {
+    closeDocument(id, "Snippet has expired");
+  }
+  const deletedIds = new Set(deleted.map((row) => row.id));
+  const deletedFiles = files.filter((file) => file.snippetId && deletedIds.has(file.snippetId));
+  await deleteAttachmentFiles(deletedFiles);
+  result.attachments += deletedFiles.length;
+  result.snippets += deleted.length;
+  return expired.length;
+}
+
+export async function sweepExpired(now = new Date()): Promise<SweepResult> {
+  const result = emptyResult();
+
+  while (await sweepSnippetBatch(now, result) === BATCH_SIZE) {
+    // Keep going until a short batch shows the backlog is drained.
+  }
+
+  const tokens = await db
+    .delete(verificationTokens)
+    .where(lte(verificationTokens.expiresAt, now))
+    .returning({ id: verificationTokens.id });
+  result.verificationTokens = tokens.length;
+
+  result.idleCalls = await endIdleCalls(now);
+  result.unlockAttempts = await pruneUnlockAttempts(now);
+
+  return result;
+}
+
+async function runSweep() {
+  const startedAt = Date.now();
+  sweeperMetrics.runs += 1;
+  sweeperMetrics.lastRunAt = new Date(startedAt);
+
+  try {
+    const result = await sweepExpired();
+    sweeperMetrics.lastResult = result;
+    sweeperMetrics.lastError = null;
+    for (const key of Object.keys(result) as Array<keyof SweepResult>) {
+      sweeperMetrics.totals[key] += result[key];
+    }
+    if (result.snippets > 0 || result.verificationTokens > 0 || result.idleCalls > 0) {
+      console.log(`Expiry sweep purged ${JSON.stringify(result)}`);
+    }
+  } catch (error: any) {
+    sweeperMetrics.failures += 1;
+    sweeperMetrics.lastError = error.message;
+    console.error("Error sweeping expired rows:", error);
+  } finally {
+    sweeperMetrics.lastDurationMs = Date.now() - startedAt;
+  }
+}
+
+export function startExpirySweeper(intervalMs = Number(process.env.SWEEPER_INTERVAL_MS) || 5 * 60_000) {
+  let running = false;
+  const tick = async () => {
+    // A slow sweep must not overlap the next one.
+    if (running) return;
+    running = true;
+    await runSweep();
+    running = false;
+  };
+
+  void tick();
+  const timer = setInterval(tick, intervalMs);
+  timer.unref();
+  return () => clearInterval(timer);
+}
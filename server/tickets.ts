@@ -0,0 +1,299 @@
+import { and, asc, count, desc, eq, inArray, isNull, sql, type SQL } from "drizzle-orm";
+import { db } from "./db";
+import {
+  supportTicketEvents,
+  supportTicketReplies,
+  supportTickets,
+  TICKET_PRIORITIES,
+  TICKET_STATUSES,
+  type InsertSupportTicket,
+  type SupportTicket,
+  type TicketPriority,
+  type TicketStatus,
+  type UpdateTicketRequest,
+} from "@shared/schema";
+import { resolveUsername, type AuthUser } from "./auth";
+import { HttpError } from "./errors";
+import type { Transaction } from "./projectFiles";
+
+/*
+ * Ticket workflow:
+ *
+ *   open -> in_progress -> waiting_on_user -> resolved -> closed
+ *
+ * Staff can also send work back (waiting_on_user -> in_progress), reopen a
+ * resolved ticket, and close an open ticket that needs no work. The person
+ * who filed the ticket can only confirm or reopen a resolved one; their
+ * replies move it along automatically.
+ */
+const TRANSITIONS: Record<TicketStatus, TicketStatus[]> = {
+  open: ["in_progress", "closed"],
+  in_progress: ["waiting_on_user", "resolved"],
+  waiting_on_user: ["in_progress", "resolved"],
+  resolved: ["closed", "in_progress"],
+  closed: [],
+};
+
+const REQUESTER_TRANSITIONS: Partial<Record<TicketStatus, TicketStatus[]>> = {
+  resolved: ["closed", "in_progress"],
+};
+
+// Time allowed before the first staff reply, by priority.
+export const SLA_FIRST_RESPONSE_HOURS: Record<TicketPriority, number> = {
+  urgent: 1,
+  high: 4,
+  medium: 24,
+  low: 72,
+};
+
+const ACTIVE_STATUSES: TicketStatus[] = ["open", "in_progress", "waiting_on_user"];
+const DEFAULT_QUEUE_SIZE = 50;
+const MAX_QUEUE_SIZE = 200;
+
+function isStaff(user: AuthUser) {
+  return user.role === "admin";
+}
+
+function allowedTransitions(from: string) {
+  return TRANSITIONS[from as TicketStatus] ?? [];
+}
+
+function assertTransition(from: string, to: TicketStatus, user: AuthUser) {
+  if (!allowedTransitions(from).includes(to)) {
+    throw new HttpError(409, `A ticket cannot move from ${from} to ${to}`, { allowed: allowedTransitions(from) });
+  }
+  if (!isStaff(user) && !REQUESTER_TRANSITIONS[from as TicketStatus]?.includes(to)) {
+    throw new HttpError(403, "Only support staff can make this change");
+  }
+}
+
+// Timestamps that track the workflow, for a move into `status`.
+function statusTimestamps(status: TicketStatus, now: Date) {
+  return {
+    status,
+    resolvedAt: status === "resolved" ? now : status === "closed" ? undefined : null,
+    closedAt: status === "closed" ? now : null,
+  };
+}
+
+async function lockTicket(tx: Transaction, ticketId: string) {
+  const [ticket] = await tx
+    .select()
+    .from(supportTickets)
+    .where(eq(supportTickets.id, ticketId))
+    .for("update");
+  if (!ticket) {
+    throw new HttpError(404, "Ticket not found");
+  }
+  return ticket;
+}
+
+type Actor = { actorId: string; actorName: string };
+
+function event(ticketId: string, actor: Actor, action: string, fromValue?: string | null, toValue?: string | null) {
+  return {
+    ticketId,
+    ...actor,
+    action,
+    fromValue: fromValue ?? null,
+    toValue: toValue ?? null,
+    // now() is fixed for the transaction; this keeps events from one change in order.
+    createdAt: sql`clock_timestamp()`,
+  };
+}
+
+export async function createTicket(data: InsertSupportTicket, user: AuthUser) {
+  const actor = { actorId: user.id, actorName: await resolveUsername(user) };
+
+  return db.transaction(async (tx) => {
+    const [ticket] = await tx.insert(supportTickets).values({ ...data, status: "open" }).returning();
+    await tx.insert(supportTicketEvents).values(event(ticket.id, actor, "created", null, ticket.status));
+    return ticket;
+  });
+}
+
+export async function listOwnTickets(userId: string, status?: string) {
+  return db
+    .select()
+    .from(supportTickets)
+    .where(and(eq(supportTickets.userId, userId), status ? eq(supportTickets.status, status) : undefined))
+    .orderBy(desc(supportTickets.updatedAt))
+    .limit(100);
+}
+
+/** The ticket with its replies and audit trail, both oldest first. */
+export async function getTicketThread(ticket: SupportTicket) {
+  const [replies, events] = await Promise.all([
+    db
+      .select()
+      .from(supportTicketReplies)
+      .where(eq(supportTicketReplies.ticketId, ticket.id))
+      .orderBy(asc(supportTicketReplies.createdAt), asc(supportTicketReplies.id)),
+    db
+      .select()
+      .from(supportTicketEvents)
+      .where(eq(supportTicketEvents.ticketId, ticket.id))
+      .orderBy(asc(supportTicketEvents.createdAt), asc(supportTicketEvents.id)),
+  ]);
+  return { ticket, replies, events, allowedTransitions: allowedTransitions(ticket.status) };
+}
+
+/**
+ * Adds a reply. A staff reply counts as the first response and picks up an
+ * open ticket; a reply from the requester puts the ticket back with staff.
+ */
+export async function addReply(ticketId: string, user: AuthUser, reply: { body: string; parentId?: string }) {
+  const actor = { actorId: user.id, actorName: await resolveUsername(user) };
+  const staff = isStaff(user);
+
+  return db.transaction(async (tx) => {
+    const ticket = await lockTicket(tx, ticketId);
+    if (ticket.status === "closed") {
+      throw new HttpError(409, "Closed tickets cannot receive replies");
+    }
+    if (reply.parentId) {
+      const [parent] = await tx
+        .select({ id: supportTicketReplies.id })
+        .from(supportTicketReplies)
+        .where(and(eq(supportTicketReplies.id, reply.parentId), eq(supportTicketReplies.ticketId, ticket.id)))
+        .limit(1);
+      if (!parent) {
+        throw new HttpError(400, "parentId must be a reply on this ticket");
+      }
+    }
+
+    const [created] = await tx
+      .insert(supportTicketReplies)
+      .values({ ticketId: ticket.id, parentId: reply.parentId, authorId: user.id, authorName: actor.actorName, isStaff: staff, body: reply.body })
+      .returning();
+
+    const now = new Date();
+    const nextStatus: TicketStatus | null = staff
+      ? (ticket.status === "open" ? "in_progress" : null)
+      : (ticket.status === "waiting_on_user" || ticket.status === "resolved" ? "in_progress" : null);
+
+    const events = [event(ticket.id, actor, "replied", null, created.id)];
+    if (nextStatus) {
+      events.push(event(ticket.id, actor, "status_changed", ticket.status, nextStatus));
+    }
+    await tx.insert(supportTicketEvents).values(events);
+
+    await tx
+      .update(supportTickets)
+      .set({
+        ...(nextStatus ? statusTimestamps(nextStatus, now) : {}),
+        firstResponseAt: staff && !ticket.firstResponseAt ? now : undefined,
+        updatedAt: now,
+      })
+      .where(eq(supportTickets.id, ticket.id));
+
+    return created;
+  });
+}
+
+/**
+ * Changes status, priority or assignee, recording each change. Priority and
+ * assignee are staff-only; status changes must follow the workflow.
+ */
+export async function updateTicket(ticketId: string, user: AuthUser, changes: UpdateTicketRequest) {
+  if (!isStaff(user) && (changes.priority !== undefined || changes.assigneeId !== undefined)) {
+    throw new HttpError(403, "Only support staff can change priority or assignee");
+  }
+  const actor = { actorId: user.id, actorName: await resolveUsername(user) };
+
+  return db.transaction(async (tx) => {
+    const ticket = await lockTicket(tx, ticketId);
+    const now = new Date();
+    const update: Partial<typeof supportTickets.$inferInsert> = {};
+    const events: ReturnType<typeof event>[] = [];
+
+    if (changes.status !== undefined && changes.status !== ticket.status) {
+      assertTransition(ticket.status, changes.status, user);
+      Object.assign(update, statusTimestamps(changes.status, now));
+      events.push(event(ticket.id, actor, "status_changed", ticket.status, changes.status));
+    }
+    if (changes.priority !== undefined && changes.priority !== ticket.priority) {
+      update.priority = changes.priority;
+      events.push(event(ticket.id, actor, "priority_changed", ticket.priority, changes.priority));
+    }
+    if (changes.assigneeId !== undefined && changes.assigneeId !== ticket.assigneeId) {
+      update.assigneeId = changes.assigneeId;
+      events.push(event(ticket.id, actor, "assigned", ticket.assigneeId, changes.assigneeId));
+    }
+
+    if (events.length === 0) return ticket;
+
+    await tx.insert(supportTicketEvents).values(events);
+    const [updated] = await tx
+      .update(supportTickets)
+      .set({ ...update, updatedAt: now })
+      .where(eq(supportTickets.id, ticket.id))
+      .returning();
+    return updated;
+  });
+}
+
+// When the first response is due, from the ticket's priority (medium if unset or unknown).
+const slaDueAt = sql<Date>`${supportTickets.createdAt} + make_interval(hours => case ${supportTickets.priority} ${sql.join(
+  TICKET_PRIORITIES.map((priority) => sql`when ${priority} then ${sql.raw(String(SLA_FIRST_RESPONSE_HOURS[priority]))}`),
+  sql` `,
+)} else ${sql.raw(String(SLA_FIRST_RESPONSE_HOURS.medium))} end)`.mapWith(supportTickets.createdAt);
+
+function listFilter(value: unknown) {
+  if (typeof value !== "string" || value === "") return undefined;
+  return value.split(",").map((item) => item.trim()).filter(Boolean);
+}
+
+/**
+ * The staff queue, most urgent SLA first. Filters take comma-separated lists;
+ * without a status filter, resolved and closed tickets are left out.
+ * `assignee` is a user id, "me" or "unassigned".
+ */
+export async function listTicketQueue(query: Record<string, unknown>, user: AuthUser) {
+  const statuses = listFilter(query.status) ?? ACTIVE_STATUSES;
+  const priorities = listFilter(query.priority);
+  const types = listFilter(query.type);
+  const unknownStatus = statuses.find((status) => !(TICKET_STATUSES as readonly string[]).includes(status));
+  if (unknownStatus) {
+    throw new HttpError(400, `Unknown status "${unknownStatus}"`);
+  }
+
+  const conditions: (SQL | undefined)[] = [
+    inArray(supportTickets.status, statuses),
+    priorities ? inArray(supportTickets.priority, priorities) : undefined,
+    types ? inArray(supportTickets.type, types) : undefined,
+  ];
+  if (query.assignee === "unassigned") {
+    conditions.push(isNull(supportTickets.assigneeId));
+  } else if (typeof query.assignee === "string" && query.assignee) {
+    conditions.push(eq(supportTickets.assigneeId, query.assignee === "me" ? user.id : query.assignee));
+  }
+
+  const limit = Math.min(Math.max(Number(query.limit) || DEFAULT_QUEUE_SIZE, 1), MAX_QUEUE_SIZE);
+  const offset = Math.max(Number(query.offset) || 0, 0);
+  const where = and(...conditions);
+
+  const [rows, [total]] = await Promise.all([
+    db
+      .select({ ticket: supportTickets, slaDueAt })
+      .from(supportTickets)
+      .where(where)
+      .orderBy(asc(slaDueAt), asc(supportTickets.createdAt))
+      .limit(limit)
+      .offset(offset),
+    db.select({ value: count() }).from(supportTickets).where(where),
+  ]);
+
+  const now = Date.now();
+  return {
+    tickets: rows.map(({ ticket, slaDueAt: due }) => ({
+      ...ticket,
+      ageMinutes: Math.floor((now - ticket.createdAt.getTime()) / 60_000),
+      slaDueAt: due,
+      slaBreached: ticket.firstResponseAt ? ticket.firstResponseAt > due : now > due.getTime(),
+    })),
+    total: total.value,
+    limit,
+    offset,
+  };
+}
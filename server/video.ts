@@ -0,0 +1,216 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import type { IncomingHttpHeaders } from "http";
+import { HttpError } from "./errors";
+
+export interface VideoRoom {
+  name: string;
+  url: string;
+}
+
+export interface VideoParticipant {
+  userId: string;
+  username: string;
+  // Owners can remove other participants from the room.
+  owner: boolean;
+}
+
+export type VideoEvent =
+  | { type: "participant-joined" | "participant-left"; roomName: string; userId: string; username: string | null; at: Date }
+  | { type: "meeting-ended"; roomName: string; at: Date };
+
+export interface VideoProvider {
+  readonly name: string;
+  createRoom(name: string, expiresAt: Date): Promise<VideoRoom>;
+  createMeetingToken(roomName: string, participant: VideoParticipant, expiresAt: Date): Promise<string>;
+  // Deleting a room that no longer exists is not an error.
+  deleteRoom(name: string): Promise<void>;
+  verifyWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): boolean;
+  // Null for events that do not affect a call.
+  parseWebhook(body: unknown): VideoEvent | null;
+}
+
+// Webhooks older than this are rejected so a captured request cannot be replayed.
+const WEBHOOK_TOLERANCE_SECONDS = 5 * 60;
+
+function header(headers: IncomingHttpHeaders, name: string) {
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/*
+ * Daily signs `${timestamp}.${body}` with HMAC-SHA256, keyed by the base64
+ * decoded webhook secret, and sends the base64 digest.
+ */
+export function signDailyWebhook(secret: string, timestamp: string, rawBody: Buffer) {
+  return createHmac("sha256", Buffer.from(secret, "base64"))
+    .update(`${timestamp}.`)
+    .update(rawBody)
+    .digest("base64");
+}
+
+function verifyDailySignature(secret: string | undefined, rawBody: Buffer, headers: IncomingHttpHeaders) {
+  if (!secret) {
+    throw new HttpError(503, "Video webhooks are not configured on this server");
+  }
+  const timestamp = header(headers, "x-webhook-timestamp");
+  const signature = header(headers, "x-webhook-signature");
+  if (!timestamp || !signature) return false;
+
+  const age = Math.abs(Date.now() / 1000 - Number(timestamp));
+  if (!(age <= WEBHOOK_TOLERANCE_SECONDS)) return false;
+
+  const expected = Buffer.from(signDailyWebhook(secret, timestamp, rawBody));
+  const actual = Buffer.from(signature);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+function parseDailyEvent(body: unknown): VideoEvent | null {
+  const event = body as { type?: unknown; event_ts?: unknown; payload?: Record<string, unknown> } | null;
+  const payload = event?.payload;
+  if (!payload || typeof payload.room !== "string") return null;
+
+  const at = typeof event.event_ts === "number" ? new Date(event.event_ts * 1000) : new Date();
+  switch (event.type) {
+    case "participant.joined":
+    case "participant.left": {
+      // Our meeting tokens carry the app's user id; fall back to the session for anyone else.
+      const userId = typeof payload.user_id === "string" && payload.user_id
+        ? payload.user_id
+        : typeof payload.session_id === "string" ? payload.session_id : null;
+      if (!userId) return null;
+      return {
+        type: event.type === "participant.joined" ? "participant-joined" : "participant-left",
+        roomName: payload.room,
+        userId,
+        username: typeof payload.user_name === "string" ? payload.user_name : null,
+        at,
+      };
+    }
+    case "meeting.ended":
+      return { type: "meeting-ended", roomName: payload.room, at };
+    default:
+      return null;
+  }
+}
+
+/** Daily's REST API. Rooms are private, so joining needs a meeting token. */
+export class DailyProvider implements VideoProvider {
+  readonly name = "daily";
+
+  constructor(
+    private apiKey: string,
+    private webhookSecret: string | undefined,
+    private baseUrl = "https://api.daily.co/v1",
+  ) {}
+
+  private async request<T>(method: string, path: string, body?: unknown): Promise<T | null> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method,
+      headers: { Authorization: `Bearer ${this.apiKey}`, "Content-Type": "application/json" },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    if (response.status === 404 && method === "DELETE") return null;
+    if (!response.ok) {
+      throw new HttpError(502, `Video provider request failed with status ${response.status}`);
+    }
+    return (await response.json()) as T;
+  }
+
+  async createRoom(name: string, expiresAt: Date) {
+    const room = await this.request<VideoRoom>("POST", "/rooms", {
+      name,
+      privacy: "private",
+      properties: { exp: Math.floor(expiresAt.getTime() / 1000), eject_at_room_exp: true },
+    });
+    return { name: room!.name, url: room!.url };
+  }
+
+  async createMeetingToken(roomName: string, participant: VideoParticipant, expiresAt: Date) {
+    const result = await this.request<{ token: string }>("POST", "/meeting-tokens", {
+      properties: {
+        room_name: roomName,
+        user_id: participant.userId,
+        user_name: participant.username,
+        is_owner: participant.owner,
+        exp: Math.floor(expiresAt.getTime() / 1000),
+      },
+    });
+    return result!.token;
+  }
+
+  async deleteRoom(name: string) {
+    await this.request("DELETE", `/rooms/${encodeURIComponent(name)}`);
+  }
+
+  verifyWebhook(rawBody: Buffer, headers: IncomingHttpHeaders) {
+    return verifyDailySignature(this.webhookSecret, rawBody, headers);
+  }
+
+  parseWebhook(body: unknown) {
+    return parseDailyEvent(body);
+  }
+}
+
+/**
+ * Keeps rooms in memory and hands out opaque tokens. Its webhooks use Daily's
+ * payloads and signing scheme, so tests can drive the whole call lifecycle.
+ */
+export class FakeVideoProvider implements VideoProvider {
+  readonly name = "fake";
+  readonly rooms = new Map<string, { url: string; expiresAt: Date }>();
+
+  constructor(private webhookSecret?: string) {}
+
+  async createRoom(name: string, expiresAt: Date) {
+    const url = `https://video.invalid/${name}`;
+    this.rooms.set(name, { url, expiresAt });
+    return { name, url };
+  }
+
+  async createMeetingToken(roomName: string, participant: VideoParticipant, expiresAt: Date) {
+    if (!this.rooms.has(roomName)) {
+      throw new HttpError(502, "Video provider request failed with status 404");
+    }
+    const claims = { room: roomName, ...participant, exp: Math.floor(expiresAt.getTime() / 1000) };
+    return `fake.${Buffer.from(JSON.stringify(claims)).toString("base64url")}`;
+  }
+
+  async deleteRoom(name: string) {
+    this.rooms.delete(name);
+  }
+
+  verifyWebhook(rawBody: Buffer, headers: IncomingHttpHeaders) {
+    return verifyDailySignature(this.webhookSecret, rawBody, headers);
+  }
+
+  parseWebhook(body: unknown) {
+    return parseDailyEvent(body);
+  }
+}
+
+function createDefaultProvider(): VideoProvider {
+  if (process.env.VIDEO_PROVIDER === "fake") {
+    return new FakeVideoProvider(process.env.VIDEO_WEBHOOK_SECRET);
+  }
+  if (!process.env.DAILY_API_KEY) {
+    throw new HttpError(503, "Video calls are not configured on this server");
+  }
+  return new DailyProvider(
+    process.env.DAILY_API_KEY,
+    process.env.DAILY_WEBHOOK_SECRET || process.env.VIDEO_WEBHOOK_SECRET,
+    process.env.DAILY_API_URL || undefined,
+  );
+}
+
+let providerFactory: () => VideoProvider = createDefaultProvider;
+let provider: VideoProvider | undefined;
+
+export function setVideoProviderFactory(factory: () => VideoProvider) {
+  providerFactory = factory;
+  provider = undefined;
+}
+
+export function getVideoProvider() {
+  provider ??= providerFactory();
+  return provider;
+}
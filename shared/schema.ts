@@ -1,4 +1,4 @@
-import { pgTable, text, timestamp, boolean, integer, jsonb, uuid, decimal, uniqueIndex, index, serial } from "drizzle-orm/pg-core";
+import { pgTable, text, timestamp, boolean, integer, jsonb, uuid, decimal, uniqueIndex, index, serial, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { sql } from "drizzle-orm";
 import { createInsertSchema, createSelectSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -7,12 +7,33 @@ export const profiles = pgTable("profiles", {
   id: uuid("id").primaryKey(),
   username: text("username").unique(),
   avatarUrl: text("avatar_url"),
+  // Storage key of an uploaded avatar; avatarUrl then points at our avatar route.
+  avatarKey: text("avatar_key"),
+  // Set only once the address has been confirmed through a verification token.
+  email: text("email"),
+  emailVerifiedAt: timestamp("email_verified_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 }, (table) => ({
   usernameIdx: uniqueIndex("unique_username").on(table.username),
-  usernameSearchIdx: index("idx_profiles_username").on(table.username),
+  // text_pattern_ops lets prefix searches (username like 'abc%') use the index.
+  usernameSearchIdx: index("idx_profiles_username").on(table.username.op("text_pattern_ops")),
+  usernameLowerIdx: uniqueIndex("unique_username_lower").on(sql`lower(${table.username})`),
+  emailIdx: uniqueIndex("unique_profile_email").on(sql`lower(${table.email})`),
 }));
 
+/*
+ * The full-text document for a snippet. Title and description rank above
+ * content, and content is capped to stay within tsvector's size limit. Queries
+ * must use this same expression for the GIN index on it to apply.
+ */
+export function snippetSearchVector(table: { title: AnyPgColumn; description: AnyPgColumn; content: AnyPgColumn }) {
+  return sql`(
+    setweight(to_tsvector('english', coalesce(${table.title}, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(${table.description}, '')), 'B') ||
+    setweight(to_tsvector('english', left(coalesce(${table.content}, ''), 100000)), 'C')
+  )`;
+}
+
 export const codeSnippets = pgTable("code_snippets", {
   id: uuid("id").primaryKey().defaultRandom(),
   title: text("title").notNull().default("Untitled"),
@@ -26,10 +47,53 @@ export const codeSnippets = pgTable("code_snippets", {
   isTemporary: boolean("is_temporary").default(false),
   expiresAt: timestamp("expires_at"),
   shareToken: text("share_token").notNull().unique(),
+  viewCount: integer("view_count").notNull().default(0),
+  forkCount: integer("fork_count").notNull().default(0),
+  // The snippet this one was forked from, if it still exists.
+  forkedFromId: uuid("forked_from_id").references((): AnyPgColumn => codeSnippets.id, { onDelete: "set null" }),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 }, (table) => ({
   expirationIdx: index("idx_code_snippets_expiration").on(table.expiresAt),
+  searchIdx: index("idx_code_snippets_search").using("gin", snippetSearchVector(table)),
+  galleryIdx: index("idx_code_snippets_gallery").on(table.isPublic, table.createdAt),
+  forkedFromIdx: index("idx_code_snippets_forked_from").on(table.forkedFromId),
+}));
+
+export const tags = pgTable("tags", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  name: text("name").notNull().unique(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const snippetTags = pgTable("snippet_tags", {
+  snippetId: uuid("snippet_id").notNull().references(() => codeSnippets.id, { onDelete: "cascade" }),
+  tagId: uuid("tag_id").notNull().references(() => tags.id, { onDelete: "cascade" }),
+}, (table) => ({
+  uniqueSnippetTag: uniqueIndex("snippet_tags_snippet_id_tag_id_key").on(table.snippetId, table.tagId),
+  tagIdIdx: index("idx_snippet_tags_tag_id").on(table.tagId),
+}));
+
+/*
+ * Kept out of code_snippets so the hash never rides along with a snippet
+ * select. `hash` is "scrypt$N$r$p$salt$key", all base64 after the costs.
+ */
+export const snippetPassphrases = pgTable("snippet_passphrases", {
+  snippetId: uuid("snippet_id").primaryKey().references(() => codeSnippets.id, { onDelete: "cascade" }),
+  hash: text("hash").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Failed passphrase attempts, counted for rate limiting.
+export const snippetUnlockAttempts = pgTable("snippet_unlock_attempts", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  snippetId: uuid("snippet_id").notNull().references(() => codeSnippets.id, { onDelete: "cascade" }),
+  ip: text("ip").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  snippetCreatedIdx: index("idx_snippet_unlock_attempts_snippet_created").on(table.snippetId, table.createdAt),
+  ipCreatedIdx: index("idx_snippet_unlock_attempts_ip_created").on(table.ip, table.createdAt),
 }));
 
 export const snippetCollaborators = pgTable("snippet_collaborators", {
@@ -57,9 +121,22 @@ export const snippetMessages = pgTable("snippet_messages", {
   fileType: text("file_type"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
+  deletedAt: timestamp("deleted_at"),
 }, (table) => ({
   snippetIdIdx: index("idx_snippet_messages_snippet_id").on(table.snippetId),
   createdAtIdx: index("idx_snippet_messages_created_at").on(table.createdAt),
+  timelineIdx: index("idx_snippet_messages_timeline").on(table.snippetId, table.createdAt, table.id),
+}));
+
+export const snippetReadMarkers = pgTable("snippet_read_markers", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  snippetId: uuid("snippet_id").notNull().references(() => codeSnippets.id, { onDelete: "cascade" }),
+  userId: uuid("user_id").notNull(),
+  lastReadMessageId: uuid("last_read_message_id").notNull(),
+  lastReadAt: timestamp("last_read_at").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  uniqueUserSnippet: uniqueIndex("snippet_read_markers_snippet_id_user_id_key").on(table.snippetId, table.userId),
 }));
 
 export const snippetCalls = pgTable("snippet_calls", {
@@ -72,6 +149,9 @@ export const snippetCalls = pgTable("snippet_calls", {
   startedBy: uuid("started_by"),
   isActive: boolean("is_active").default(true),
   participantCount: integer("participant_count").default(0),
+  // Which video provider created the room, and when anyone last joined or left.
+  provider: text("provider"),
+  lastActivityAt: timestamp("last_activity_at").defaultNow(),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 }, (table) => ({
@@ -79,6 +159,34 @@ export const snippetCalls = pgTable("snippet_calls", {
   activeIdx: index("idx_snippet_calls_active").on(table.snippetId, table.isActive),
 }));
 
+// One row per user per call. A user who rejoins reopens their row.
+export const snippetCallParticipants = pgTable("snippet_call_participants", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  callId: uuid("call_id").notNull().references(() => snippetCalls.id, { onDelete: "cascade" }),
+  userId: text("user_id").notNull(),
+  username: text("username"),
+  joinedAt: timestamp("joined_at").defaultNow().notNull(),
+  leftAt: timestamp("left_at"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  uniqueCallUser: uniqueIndex("snippet_call_participants_call_id_user_id_key").on(table.callId, table.userId),
+}));
+
+export const snippetRevisions = pgTable("snippet_revisions", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  snippetId: uuid("snippet_id").notNull().references(() => codeSnippets.id, { onDelete: "cascade" }),
+  revision: integer("revision").notNull(),
+  content: text("content").notNull().default(""),
+  title: text("title"),
+  language: text("language"),
+  authorId: uuid("author_id"),
+  restoredFrom: integer("restored_from"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  uniqueRevision: uniqueIndex("snippet_revisions_snippet_id_revision_key").on(table.snippetId, table.revision),
+}));
+
 export const projects = pgTable("projects", {
   id: uuid("id").primaryKey().defaultRandom(),
   ownerId: uuid("owner_id").notNull(),
@@ -88,6 +196,7 @@ export const projects = pgTable("projects", {
   githubOwner: text("github_owner"),
   githubRepo: text("github_repo"),
   githubBranch: text("github_branch").default("main"),
+  githubSyncedSha: text("github_synced_sha"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 }, (table) => ({
@@ -103,6 +212,7 @@ export const projectFiles = pgTable("project_files", {
   content: text("content"),
   language: text("language"),
   path: text("path").notNull(),
+  githubSha: text("github_sha"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 }, (table) => ({
@@ -123,7 +233,12 @@ export const projectSecrets = pgTable("project_secrets", {
   id: uuid("id").primaryKey().defaultRandom(),
   projectId: uuid("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
   secretKey: text("secret_key").notNull(),
+  // AES-256-GCM ciphertext; rows written before encryption have a null keyId
+  // and hold plaintext until the next key rotation.
   secretValue: text("secret_value").notNull(),
+  wrappedKey: text("wrapped_key"),
+  keyId: text("key_id"),
+  valuePreview: text("value_preview"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 }, (table) => ({
@@ -168,6 +283,7 @@ export const challengeSubmissions = pgTable("challenge_submissions", {
   userIdx: index("idx_submissions_user").on(table.userId),
   challengeIdx: index("idx_submissions_challenge").on(table.challengeId),
   sessionIdx: index("idx_submissions_session").on(table.sessionId),
+  submittedIdx: index("idx_submissions_submitted_at").on(table.submittedAt),
 }));
 
 export const userPracticeStats = pgTable("user_practice_stats", {
@@ -205,14 +321,17 @@ export const userChallengeHistory = pgTable("user_challenge_history", {
 export const verificationTokens = pgTable("verification_tokens", {
   id: uuid("id").primaryKey().defaultRandom(),
   userId: uuid("user_id").notNull(),
+  // The address the token was sent to; for an email change, the new one.
   email: text("email").notNull(),
-  token: text("token").notNull().unique(),
+  purpose: text("purpose").notNull().default("verify_email"),
+  // SHA-256 of the token; the token itself only ever appears in the email.
+  tokenHash: text("token_hash").notNull().unique(),
   expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
   createdAt: timestamp("created_at").defaultNow(),
 }, (table) => ({
-  tokenIdx: index("idx_verification_tokens_token").on(table.token),
   expiresIdx: index("idx_verification_tokens_expires").on(table.expiresAt),
-  userIdIdx: index("idx_verification_tokens_user_id").on(table.userId),
+  userPurposeIdx: index("idx_verification_tokens_user_purpose").on(table.userId, table.purpose),
 }));
 
 export const supportTickets = pgTable("support_tickets", {
@@ -226,14 +345,86 @@ export const supportTickets = pgTable("support_tickets", {
   attachments: jsonb("attachments").default(sql`'[]'::jsonb`),
   userEmail: text("user_email").notNull(),
   username: text("username").notNull(),
+  assigneeId: uuid("assignee_id"),
+  // First reply from staff, for the response-time SLA.
+  firstResponseAt: timestamp("first_response_at"),
+  resolvedAt: timestamp("resolved_at"),
+  closedAt: timestamp("closed_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 }, (table) => ({
   userIdIdx: index("support_tickets_user_id_idx").on(table.userId),
   createdAtIdx: index("support_tickets_created_at_idx").on(table.createdAt),
+  queueIdx: index("support_tickets_queue_idx").on(table.status, table.priority, table.createdAt),
+}));
+
+export const supportTicketReplies = pgTable("support_ticket_replies", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  ticketId: uuid("ticket_id").notNull().references(() => supportTickets.id, { onDelete: "cascade" }),
+  // The reply this one answers; null for a reply to the ticket itself.
+  parentId: uuid("parent_id").references((): AnyPgColumn => supportTicketReplies.id, { onDelete: "cascade" }),
+  authorId: uuid("author_id").notNull(),
+  authorName: text("author_name").notNull(),
+  isStaff: boolean("is_staff").notNull().default(false),
+  body: text("body").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  ticketIdIdx: index("support_ticket_replies_ticket_id_idx").on(table.ticketId, table.createdAt),
+}));
+
+// Audit trail: one row per change to a ticket, with the old and new value.
+export const supportTicketEvents = pgTable("support_ticket_events", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  ticketId: uuid("ticket_id").notNull().references(() => supportTickets.id, { onDelete: "cascade" }),
+  actorId: uuid("actor_id").notNull(),
+  actorName: text("actor_name").notNull(),
+  action: text("action").notNull(),
+  fromValue: text("from_value"),
+  toValue: text("to_value"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  ticketIdIdx: index("support_ticket_events_ticket_id_idx").on(table.ticketId, table.createdAt),
+}));
+
+// Uploaded files. Each belongs to exactly one snippet or support ticket, whose
+// access rules apply to it.
+export const attachments = pgTable("attachments", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  uploaderId: uuid("uploader_id").notNull(),
+  snippetId: uuid("snippet_id").references(() => codeSnippets.id, { onDelete: "cascade" }),
+  ticketId: uuid("ticket_id").references(() => supportTickets.id, { onDelete: "cascade" }),
+  storageKey: text("storage_key").notNull(),
+  thumbnailKey: text("thumbnail_key"),
+  fileName: text("file_name").notNull(),
+  contentType: text("content_type").notNull(),
+  size: integer("size").notNull(),
+  sha256: text("sha256").notNull(),
+  width: integer("width"),
+  height: integer("height"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  snippetIdIdx: index("idx_attachments_snippet_id").on(table.snippetId),
+  ticketIdIdx: index("idx_attachments_ticket_id").on(table.ticketId),
+}));
+
+export const aiUsageLogs = pgTable("ai_usage_logs", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: uuid("user_id").notNull(),
+  feature: text("feature").notNull(),
+  mode: text("mode"),
+  provider: text("provider").notNull(),
+  model: text("model").notNull(),
+  status: text("status").notNull().default("pending"),
+  promptTokens: integer("prompt_tokens").default(0),
+  completionTokens: integer("completion_tokens").default(0),
+  durationMs: integer("duration_ms"),
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  userCreatedIdx: index("idx_ai_usage_logs_user_created").on(table.userId, table.createdAt),
 }));
 
-export const insertProfileSchema = createInsertSchema(profiles).omit({ id: true, createdAt: true });
+export const insertProfileSchema = createInsertSchema(profiles).omit({ id: true, createdAt: true, avatarKey: true, email: true, emailVerifiedAt: true });
 export const selectProfileSchema = createSelectSchema(profiles);
 export type InsertProfile = z.infer<typeof insertProfileSchema>;
 export type Profile = typeof profiles.$inferSelect;
@@ -242,7 +433,14 @@ export const insertCodeSnippetSchema = createInsertSchema(codeSnippets).omit({
   id: true, 
   createdAt: true, 
   updatedAt: true,
-  shareToken: true 
+  shareToken: true,
+  // Curated by admins and maintained by the server.
+  isFeatured: true,
+  viewCount: true,
+  forkCount: true,
+  forkedFromId: true,
+  // Only set along with a passphrase, by the passphrase routes.
+  isProtected: true,
 });
 export const selectCodeSnippetSchema = createSelectSchema(codeSnippets);
 export type InsertCodeSnippet = z.infer<typeof insertCodeSnippetSchema>;
@@ -252,14 +450,26 @@ export const insertSnippetCollaboratorSchema = createInsertSchema(snippetCollabo
 export type InsertSnippetCollaborator = z.infer<typeof insertSnippetCollaboratorSchema>;
 export type SnippetCollaborator = typeof snippetCollaborators.$inferSelect;
 
-export const insertSnippetMessageSchema = createInsertSchema(snippetMessages).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertSnippetMessageSchema = createInsertSchema(snippetMessages).omit({ id: true, createdAt: true, updatedAt: true, deletedAt: true });
 export type InsertSnippetMessage = z.infer<typeof insertSnippetMessageSchema>;
 export type SnippetMessage = typeof snippetMessages.$inferSelect;
+export type SnippetReadMarker = typeof snippetReadMarkers.$inferSelect;
+
+export type SnippetCall = typeof snippetCalls.$inferSelect;
+export type SnippetCallParticipant = typeof snippetCallParticipants.$inferSelect;
+
+export type SnippetRevision = typeof snippetRevisions.$inferSelect;
+export type Tag = typeof tags.$inferSelect;
+export type VerificationToken = typeof verificationTokens.$inferSelect;
 
 export const insertProjectSchema = createInsertSchema(projects).omit({ id: true, createdAt: true, updatedAt: true });
 export type InsertProject = z.infer<typeof insertProjectSchema>;
 export type Project = typeof projects.$inferSelect;
 
+export type ProjectFile = typeof projectFiles.$inferSelect;
+export type ProjectCollaborator = typeof projectCollaborators.$inferSelect;
+export type ProjectSecret = typeof projectSecrets.$inferSelect;
+
 export const insertCodingChallengeSchema = createInsertSchema(codingChallenges).omit({ id: true, createdAt: true });
 export type InsertCodingChallenge = z.infer<typeof insertCodingChallengeSchema>;
 export type CodingChallenge = typeof codingChallenges.$inferSelect;
@@ -268,6 +478,237 @@ export const insertChallengeSubmissionSchema = createInsertSchema(challengeSubmi
 export type InsertChallengeSubmission = z.infer<typeof insertChallengeSubmissionSchema>;
 export type ChallengeSubmission = typeof challengeSubmissions.$inferSelect;
 
-export const insertSupportTicketSchema = createInsertSchema(supportTickets).omit({ id: true, createdAt: true, updatedAt: true });
+export const TICKET_STATUSES = ["open", "in_progress", "waiting_on_user", "resolved", "closed"] as const;
+export const TICKET_PRIORITIES = ["low", "medium", "high", "urgent"] as const;
+export type TicketStatus = typeof TICKET_STATUSES[number];
+export type TicketPriority = typeof TICKET_PRIORITIES[number];
+
+// Workflow fields are set by the server, never by the person filing the ticket.
+// Priority is for staff to triage, and files are attached through uploads.
+export const insertSupportTicketSchema = createInsertSchema(supportTickets)
+  .omit({
+    id: true,
+    status: true,
+    priority: true,
+    attachments: true,
+    assigneeId: true,
+    firstResponseAt: true,
+    resolvedAt: true,
+    closedAt: true,
+    createdAt: true,
+    updatedAt: true,
+  });
 export type InsertSupportTicket = z.infer<typeof insertSupportTicketSchema>;
 export type SupportTicket = typeof supportTickets.$inferSelect;
+export type SupportTicketReply = typeof supportTicketReplies.$inferSelect;
+export type SupportTicketEvent = typeof supportTicketEvents.$inferSelect;
+
+export const ticketReplySchema = z.object({
+  body: z.string().trim().min(1).max(20000),
+  parentId: z.string().uuid().optional(),
+});
+
+export const updateTicketSchema = z.object({
+  status: z.enum(TICKET_STATUSES).optional(),
+  priority: z.enum(TICKET_PRIORITIES).optional(),
+  assigneeId: z.string().uuid().nullable().optional(),
+});
+export type UpdateTicketRequest = z.infer<typeof updateTicketSchema>;
+
+export type AiUsageLog = typeof aiUsageLogs.$inferSelect;
+export type Attachment = typeof attachments.$inferSelect;
+
+export const executeCodeRequestSchema = z.object({
+  code: z.string(),
+  language: z.string().min(1),
+  stdin: z.string().optional(),
+  // Runs with the project's secrets in the environment; requires editor access.
+  projectId: z.string().uuid().optional(),
+  limits: z.object({
+    timeoutMs: z.number().positive().optional(),
+    cpuSeconds: z.number().positive().optional(),
+    memoryMb: z.number().positive().optional(),
+    maxOutputBytes: z.number().positive().optional(),
+  }).optional(),
+});
+export type ExecuteCodeRequest = z.infer<typeof executeCodeRequestSchema>;
+
+export const formatOptionsSchema = z.object({
+  tabWidth: z.number().int().min(1).max(16).optional(),
+  useTabs: z.boolean().optional(),
+  singleQuote: z.boolean().optional(),
+  semi: z.boolean().optional(),
+  printWidth: z.number().int().min(20).max(320).optional(),
+});
+
+// Either `code` and `language`, or `projectId` to format a whole project.
+export const formatCodeRequestSchema = z.object({
+  code: z.string().optional(),
+  language: z.string().min(1).optional(),
+  projectId: z.string().uuid().optional(),
+  apply: z.boolean().optional(),
+  options: formatOptionsSchema.optional(),
+}).refine((request) => request.projectId || (request.code !== undefined && request.language), {
+  message: "Provide code and language, or projectId",
+});
+export type FormatCodeRequest = z.infer<typeof formatCodeRequestSchema>;
+
+export const CHALLENGE_DIFFICULTIES = ["easy", "medium", "hard"] as const;
+export const generateChallengeRequestSchema = z.object({
+  difficulty: z.enum(CHALLENGE_DIFFICULTIES),
+  language: z.string().min(1),
+  topic: z.string().max(200).optional(),
+});
+export type GenerateChallengeRequest = z.infer<typeof generateChallengeRequestSchema>;
+
+export const ASSIST_MODES = ["explain", "refactor", "fix-error", "write-tests"] as const;
+export const assistRequestSchema = z.object({
+  mode: z.enum(ASSIST_MODES),
+  code: z.string().optional(),
+  language: z.string().optional(),
+  prompt: z.string().max(4000).optional(),
+  // Error output to explain or fix, for fix-error.
+  error: z.string().max(20000).optional(),
+  shareToken: z.string().optional(),
+  projectId: z.string().uuid().optional(),
+  // The project file the request is about; defaults to the whole project.
+  fileId: z.string().uuid().optional(),
+  stream: z.boolean().optional(),
+}).refine((request) => request.code !== undefined || request.shareToken || request.projectId, {
+  message: "Provide code, shareToken or projectId",
+});
+export type AssistRequest = z.infer<typeof assistRequestSchema>;
+
+export const forkSnippetSchema = z.object({
+  title: z.string().trim().min(1).max(200).optional(),
+});
+
+export const convertSnippetSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  // Defaults to main.<extension for the snippet's language>.
+  path: z.string().trim().min(1).max(500).optional(),
+});
+
+// Identify the new owner by user id or username.
+export const transferSnippetSchema = z.object({
+  userId: z.string().uuid().optional(),
+  username: z.string().trim().min(1).optional(),
+  // Keep the previous owner on as a collaborator.
+  keepAccess: z.boolean().optional(),
+}).refine((request) => Boolean(request.userId) !== Boolean(request.username), {
+  message: "Provide either userId or username",
+});
+export type TransferSnippetRequest = z.infer<typeof transferSnippetSchema>;
+
+// Any mix of a rename, a move and a content edit, applied together.
+export const updateProjectFileSchema = z.object({
+  name: z.string().optional(),
+  parentFolderId: z.string().uuid().nullable().optional(),
+  content: z.string().optional(),
+  language: z.string().trim().min(1).max(50).nullable().optional(),
+});
+export type UpdateProjectFileRequest = z.infer<typeof updateProjectFileSchema>;
+
+export const VERIFICATION_PURPOSES = ["verify_email", "email_change", "password_reset"] as const;
+export type VerificationPurpose = typeof VERIFICATION_PURPOSES[number];
+
+export const emailAddressSchema = z.object({
+  email: z.string().trim().toLowerCase().email().max(320),
+});
+
+export const verificationTokenSchema = z.object({
+  token: z.string().min(1).max(200),
+});
+
+export const passwordResetSchema = z.object({
+  token: z.string().min(1).max(200),
+  password: z.string().min(8).max(128),
+});
+
+// Naming rules are checked by the server, which also reports them for availability checks.
+export const claimUsernameSchema = z.object({
+  username: z.string().max(100),
+});
+
+export const profileSearchSchema = z.object({
+  q: z.string().trim().min(1).max(30),
+  limit: z.coerce.number().int().min(1).max(50).optional(),
+});
+
+export const snippetPassphraseSchema = z.object({
+  passphrase: z.string().min(8).max(256),
+});
+
+export const unlockSnippetSchema = z.object({
+  passphrase: z.string().min(1).max(256),
+});
+
+export const GALLERY_SORTS = ["recent", "featured", "popular", "relevance"] as const;
+export const galleryQuerySchema = z.object({
+  q: z.string().trim().max(200).optional(),
+  language: z.string().optional(),
+  // Comma-separated; a snippet must have every tag listed.
+  tag: z.string().optional(),
+  sort: z.enum(GALLERY_SORTS).optional(),
+  // The id of the last snippet on the previous page.
+  cursor: z.string().uuid().optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+});
+export type GalleryQuery = z.infer<typeof galleryQuerySchema>;
+
+// "month" and "week" are the current calendar month and week (from Monday) in STATS_TIMEZONE.
+export const LEADERBOARD_WINDOWS = ["all", "month", "week"] as const;
+export type LeaderboardWindow = typeof LEADERBOARD_WINDOWS[number];
+
+export const leaderboardQuerySchema = z.object({
+  window: z.enum(LEADERBOARD_WINDOWS).optional(),
+  language: z.string().trim().min(1).optional(),
+  difficulty: z.enum(CHALLENGE_DIFFICULTIES).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+  offset: z.coerce.number().int().min(0).optional(),
+});
+export type LeaderboardQuery = z.infer<typeof leaderboardQuerySchema>;
+
+export const ARCHIVE_FORMATS = ["zip", "tar.gz"] as const;
+export type ArchiveFormat = typeof ARCHIVE_FORMATS[number];
+
+export const projectExportQuerySchema = z.object({
+  format: z.enum(ARCHIVE_FORMATS).optional(),
+});
+
+// Multipart fields sent alongside an uploaded archive.
+export const archiveImportFieldsSchema = z.object({
+  name: z.string().trim().min(1).max(200).optional(),
+  description: z.string().max(2000).optional(),
+  replace: z.enum(["true", "false"]).optional(),
+});
+
+export const EMBED_THEMES = ["light", "dark"] as const;
+export const embedQuerySchema = z.object({
+  theme: z.enum(EMBED_THEMES).optional(),
+  // "12" or "12-20": 1-based and inclusive.
+  lines: z.string().regex(/^\d{1,7}(-\d{1,7})?$/, "lines must look like 12 or 12-20").optional(),
+  lineNumbers: z.enum(["true", "false"]).optional(),
+});
+export type EmbedQuery = z.infer<typeof embedQuerySchema>;
+
+export const oembedQuerySchema = embedQuerySchema.extend({
+  url: z.string().url(),
+  maxwidth: z.coerce.number().int().min(1).optional(),
+  maxheight: z.coerce.number().int().min(1).optional(),
+  format: z.string().optional(),
+});
+
+export const snippetListingSchema = z.object({
+  isPublic: z.boolean().optional(),
+  tags: z.array(z.string()).max(10).optional(),
+});
+
+export const SNIPPET_TTL_PRESETS = {
+  "1h": 60 * 60 * 1000,
+  "1d": 24 * 60 * 60 * 1000,
+  "7d": 7 * 24 * 60 * 60 * 1000,
+  "30d": 30 * 24 * 60 * 60 * 1000,
+} as const;
+export const snippetTtlSchema = z.enum(["1h", "1d", "7d", "30d"]);
+export type SnippetTtl = z.infer<typeof snippetTtlSchema>;